@@ -47,7 +47,41 @@ async function openBrowser(url) {
   spawn(command, args, { detached: true, stdio: 'ignore' }).unref();
 }
 
+// makecc run <workflow.json> - UI 없이 워크플로우 실행, 종료 코드는 실행 결과를 따름
+function runHeadless(runArgs) {
+  const commandPath = join(rootDir, 'server', 'runCommand.ts');
+
+  const runProcess = spawn('npx', ['tsx', commandPath, ...runArgs], {
+    cwd: rootDir,
+    env: {
+      ...process.env,
+      MAKECC_PROJECT_PATH: process.cwd(),
+    },
+    stdio: 'inherit',
+  });
+
+  runProcess.on('error', (error) => {
+    console.error('❌ Failed to start makecc run:', error.message);
+    process.exit(1);
+  });
+
+  runProcess.on('exit', (code, signal) => {
+    process.exit(code ?? (signal ? 1 : 0));
+  });
+
+  // Ctrl+C는 같은 프로세스 그룹이라 자식도 받으므로 여기서는 종료하지 않고 결과를 기다림
+  process.on('SIGINT', () => {});
+  process.on('SIGTERM', () => {
+    runProcess.kill('SIGTERM');
+  });
+}
+
 async function main() {
+  if (args[0] === 'run') {
+    runHeadless(args.slice(1));
+    return;
+  }
+
   console.log('\n🚀 makecc - Claude Code Workflow Builder\n');
 
   // 사용자가 실행한 프로젝트 경로 저장
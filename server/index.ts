@@ -24,13 +24,26 @@ import { workflowAIService } from './services/workflowAIService';
 import { skillGeneratorService, type SkillProgressEvent } from './services/skillGeneratorService';
 import { nodeSyncService } from './services/nodeSyncService';
 import { configLoaderService } from './services/configLoaderService';
-import { workflowExecutionService } from './services/workflowExecutionService';
+import { WorkflowExecutionService } from './services/workflowExecutionService';
 import { executeInTerminal, getClaudeCommand } from './services/terminalService';
 import { claudeMdService } from './services/claudeMdService';
 import { projectService } from './services/projectService';
 import { nodeContentService } from './services/nodeContentService';
 import { credentialsService } from './services/credentialsService';
-import type { WorkflowExecutionRequest, NodeExecutionUpdate } from './types';
+import { runHistoryService } from './services/runHistoryService';
+import { usageService } from './services/usageService';
+import { workspaceService } from './services/workspaceService';
+import { workflowRunService } from './services/workflowRunService';
+import { scheduleService } from './services/scheduleService';
+import { runEventService } from './services/runEventService';
+import { workflowDefinitionService } from './services/workflowDefinitionService';
+import { parseCron } from './utils/cron';
+import { resolveInputs } from './utils/workflowInputs';
+import type {
+  WorkflowExecutionRequest,
+  ApprovalResponse,
+  DryRunResult,
+} from './types';
 import type { ClaudeConfigExport, SaveOptions } from './services/fileService';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -788,96 +801,404 @@ app.post('/api/skill/credentials', async (req, res) => {
   }
 });
 
-// Socket.io connection handling
-io.on('connection', (socket) => {
-  console.log('Client connected:', socket.id);
+// Usage
+// 서버 시작 이후 AI 생성(SDK 호출) 사용량 - 워크플로우 실행 사용량은 실행 기록에 포함
+app.get('/api/usage', (_req, res) => {
+  res.json(usageService.getSummary());
+});
 
-  // Execute workflow - Actually executes the workflow using Claude Code SDK
-  socket.on('execute:workflow', async (data: WorkflowExecutionRequest) => {
-    console.log('Executing workflow:', data.workflowId);
+// Stored workflows
+// 다른 도구에서 실행할 수 있도록 서버에 저장된 워크플로우 목록
+app.get('/api/workflows', async (_req, res) => {
+  try {
+    res.json({ workflows: await workflowDefinitionService.list() });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ message: errorMessage });
+  }
+});
 
+app.get('/api/workflows/:id', async (req, res) => {
+  try {
+    const workflow = await workflowDefinitionService.get(req.params.id);
+    if (!workflow) {
+      return res.status(404).json({ message: 'Workflow not found' });
+    }
+    res.json(workflow);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ message: errorMessage });
+  }
+});
+
+// 편집기가 캔버스를 바꿀 때마다 저장
+app.put('/api/workflows/:id', async (req, res) => {
+  try {
+    const { name, request } = req.body ?? {};
+    if (!Array.isArray(request?.nodes)) {
+      return res.status(400).json({ message: 'request.nodes is required' });
+    }
+    const workflow = await workflowDefinitionService.save({ id: req.params.id, name: name || req.params.id, request });
+    res.json(workflow);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Save workflow error:', errorMessage);
+    res.status(500).json({ message: errorMessage });
+  }
+});
+
+app.delete('/api/workflows/:id', async (req, res) => {
+  try {
+    const deleted = await workflowDefinitionService.delete(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Workflow not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ message: errorMessage });
+  }
+});
+
+// 저장된 워크플로우 실행 - body: { inputs?: { [입력 노드 이름 또는 ID]: 값 }, autoApprove?: boolean }
+// 기본은 실행 ID만 바로 반환(202, GET /api/runs/:runId로 확인), ?wait=true면 끝날 때까지 기다려 결과 반환
+app.post('/api/workflows/:id/runs', async (req, res) => {
+  try {
+    const workflow = await workflowDefinitionService.get(req.params.id);
+    if (!workflow) {
+      return res.status(404).json({ message: 'Workflow not found' });
+    }
+
+    const body = req.body ?? {};
+    if (body.inputs !== undefined && (typeof body.inputs !== 'object' || Array.isArray(body.inputs))) {
+      return res.status(400).json({ message: 'inputs must be an object' });
+    }
+    let inputs: Record<string, string>;
     try {
-      // Emit start event
-      socket.emit('workflow:started', { workflowId: data.workflowId });
+      inputs = { ...workflow.request.inputs, ...resolveInputs(workflow.request.nodes, body.inputs ?? {}) };
+    } catch (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : String(error) });
+    }
 
-      socket.emit('console:log', {
-        type: 'info',
-        message: `워크플로우 "${data.workflowName}" 실행 시작...`,
-        timestamp: new Date().toISOString(),
-      });
+    console.log('Executing workflow via API:', workflow.id);
 
-      // 출력 디렉토리 설정
-      const outputDir = join(fileService.getProjectPath(), 'output', data.workflowId);
+    let resolveStarted: (runId: string | undefined) => void = () => {};
+    const started = new Promise<string | undefined>((resolve) => {
+      resolveStarted = resolve;
+    });
 
-      // 실제 워크플로우 실행
-      const results = await workflowExecutionService.execute(
-        {
-          workflowId: data.workflowId,
-          workflowName: data.workflowName,
-          nodes: data.nodes,
-          edges: data.edges,
-          inputs: data.inputs,
-          outputDir,
-        },
-        // Progress callback
-        (update: NodeExecutionUpdate) => {
-          socket.emit('node:update', update);
-        },
-        // Log callback
-        (type, message) => {
-          socket.emit('console:log', {
-            type,
-            message,
-            timestamp: new Date().toISOString(),
+    const running = workflowRunService.run(
+      { workflowId: workflow.id, workflowName: workflow.name, ...workflow.request, inputs },
+      { trigger: 'api' },
+      {
+        onStarted: (runId) => resolveStarted(runId),
+        // 승인할 사람이 없으므로 autoApprove가 아니면 거부
+        onApproval: (approval) => {
+          workflowRunService.respondApproval({
+            approvalId: approval.approvalId,
+            action: body.autoApprove === true ? 'approve' : 'reject',
           });
-        }
-      );
+        },
+      }
+    );
+    running.then((outcome) => {
+      resolveStarted(outcome.runId);
+      console.log(`API 실행 종료: ${workflow.name} (${outcome.status})`);
+    });
 
-      // 결과 수집
-      const allResults: Array<{
-        nodeId: string;
-        label: string;
-        success: boolean;
-        result?: string;
-        files?: Array<{ path: string; type: string; name: string }>;
-        error?: string;
-      }> = [];
-
-      for (const [nodeId, result] of results) {
-        const node = data.nodes.find((n) => n.id === nodeId);
-        allResults.push({
-          nodeId,
-          label: node?.data.label || nodeId,
-          success: result.success,
-          result: result.result,
-          files: result.files,
-          error: result.error,
-        });
+    if (req.query.wait === 'true') {
+      const { runId, status, results, usage, workspace, outputDir, error } = await running;
+      return res.json({ runId, status, results, usage, workspace, outputDir, error });
+    }
+
+    const runId = await started;
+    if (!runId) {
+      const outcome = await running;
+      return res.status(500).json({ message: outcome.error || 'Failed to start run' });
+    }
+    res.status(202).json({ runId, status: 'running' });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Run workflow error:', errorMessage);
+    res.status(500).json({ message: errorMessage });
+  }
+});
+
+// Run history
+// 실행 기록 목록 (?workflowId=로 필터링)
+app.get('/api/runs', async (req, res) => {
+  try {
+    const workflowId = typeof req.query.workflowId === 'string' ? req.query.workflowId : undefined;
+    const runs = await runHistoryService.listRuns(workflowId);
+    res.json({ runs });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('List runs error:', errorMessage);
+    res.status(500).json({ message: errorMessage });
+  }
+});
+
+// 진행 중인 실행 목록 (편집기, 예약, HTTP API로 시작한 실행 모두)
+app.get('/api/runs/active', (_req, res) => {
+  res.json({ runs: workflowRunService.listActive() });
+});
+
+app.get('/api/runs/:runId', async (req, res) => {
+  try {
+    const run = await runHistoryService.getRun(req.params.runId);
+    if (!run) {
+      return res.status(404).json({ message: 'Run not found' });
+    }
+    res.json(run);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ message: errorMessage });
+  }
+});
+
+app.delete('/api/runs/:runId', async (req, res) => {
+  try {
+    const deleted = await runHistoryService.deleteRun(req.params.runId);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Run not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Delete run error:', errorMessage);
+    res.status(500).json({ message: errorMessage });
+  }
+});
+
+// Isolated workspaces
+// 격리 실행의 변경 사항 (실제 프로젝트 파일 기준 diff)
+app.get('/api/runs/:runId/changes', async (req, res) => {
+  try {
+    const run = await runHistoryService.getRun(req.params.runId);
+    if (!run?.workspace || run.workspace.status !== 'pending') {
+      return res.status(404).json({ message: 'Workspace not found' });
+    }
+    const changes = await workspaceService.getChanges(req.params.runId);
+    res.json({ mode: run.workspace.mode, changes });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ message: errorMessage });
+  }
+});
+
+// 변경 사항을 실제 프로젝트에 적용 (paths가 없으면 전체) - 모두 적용했을 때만 작업 공간 정리
+app.post('/api/runs/:runId/changes/apply', async (req, res) => {
+  try {
+    const { runId } = req.params;
+    const run = await runHistoryService.getRun(runId);
+    if (!run?.workspace || run.workspace.status !== 'pending') {
+      return res.status(404).json({ message: 'Workspace not found' });
+    }
+    const paths = Array.isArray(req.body?.paths) ? (req.body.paths as string[]) : undefined;
+    const { applied, conflicts, remaining } = await workspaceService.apply(runId, paths);
+
+    // 선택하지 않았거나 충돌한 변경이 남아 있으면 다시 확인할 수 있도록 작업 공간을 남겨 둠
+    if (remaining === 0) {
+      await workspaceService.discard(runId);
+      await runHistoryService.updateWorkspace(runId, { ...run.workspace, status: 'applied' });
+    } else {
+      await runHistoryService.updateWorkspace(runId, { ...run.workspace, changedFiles: remaining });
+    }
+    console.log(`작업 공간 변경 적용 (${runId}): ${applied.length}개 파일, 충돌 ${conflicts.length}개, 남은 파일 ${remaining}개`);
+    res.json({ applied, conflicts, remaining });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Apply workspace changes error:', errorMessage);
+    res.status(500).json({ message: errorMessage });
+  }
+});
+
+// 변경 사항을 적용하지 않고 작업 공간 삭제
+app.delete('/api/runs/:runId/workspace', async (req, res) => {
+  try {
+    const { runId } = req.params;
+    const run = await runHistoryService.getRun(runId);
+    if (!run?.workspace || run.workspace.status !== 'pending') {
+      return res.status(404).json({ message: 'Workspace not found' });
+    }
+    await workspaceService.discard(runId);
+    await runHistoryService.updateWorkspace(runId, { ...run.workspace, status: 'discarded' });
+    res.json({ success: true });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Discard workspace error:', errorMessage);
+    res.status(500).json({ message: errorMessage });
+  }
+});
+
+// Schedules
+// 예약 실행 목록 (?workflowId=로 필터링)
+app.get('/api/schedules', async (req, res) => {
+  try {
+    const workflowId = typeof req.query.workflowId === 'string' ? req.query.workflowId : undefined;
+    const schedules = await scheduleService.list(workflowId);
+    res.json({ schedules });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ message: errorMessage });
+  }
+});
+
+// 예약 추가 - 요청 시점의 워크플로우와 입력값을 저장
+app.post('/api/schedules', async (req, res) => {
+  try {
+    const { workflowId, workflowName, cron, inputs, request } = req.body ?? {};
+    if (!workflowId || typeof cron !== 'string' || !Array.isArray(request?.nodes)) {
+      return res.status(400).json({ message: 'workflowId, cron, request.nodes are required' });
+    }
+
+    try {
+      parseCron(cron);
+    } catch (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : String(error) });
+    }
+
+    const schedule = await scheduleService.create({
+      workflowId,
+      workflowName: workflowName || workflowId,
+      cron,
+      inputs: inputs ?? {},
+      request: { ...request, edges: request.edges ?? [] },
+    });
+    console.log(`예약 추가: ${schedule.workflowName} (${schedule.cron})`);
+    res.json(schedule);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Create schedule error:', errorMessage);
+    res.status(500).json({ message: errorMessage });
+  }
+});
+
+app.delete('/api/schedules/:id', async (req, res) => {
+  try {
+    const deleted = await scheduleService.delete(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Schedule not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Delete schedule error:', errorMessage);
+    res.status(500).json({ message: errorMessage });
+  }
+});
+
+// 예약이 바뀌거나 예약 실행이 끝나면 모든 클라이언트에 전달
+scheduleService.onChange((schedules) => {
+  io.emit('schedules:updated', schedules);
+});
+
+// 실행 이벤트는 해당 실행을 구독한 소켓에만 전달 (끊긴 소켓은 room에서 자동으로 빠짐)
+const runRoom = (runId: string) => `run:${runId}`;
+runEventService.onEvent((runId, { event, payload }) => {
+  io.to(runRoom(runId)).emit(event, payload);
+});
+
+// 실행이 시작되거나 끝나면 모든 클라이언트에 진행 중인 실행 목록 전달
+workflowRunService.onChange((runs) => {
+  io.emit('runs:active', runs);
+});
+
+// AI 생성 사용량이 바뀌면 모든 클라이언트에 전달
+usageService.onChange((summary) => {
+  io.emit('usage:updated', summary);
+});
+
+// Socket.io connection handling
+io.on('connection', (socket) => {
+  console.log('Client connected:', socket.id);
+
+  // 이 소켓이 시작한 실행 - runId 없이 취소 요청이 오면 이 실행들을 취소
+  const socketRuns = new Set<string>();
+  // 실행 기록을 만드는 중이라 아직 runId가 없는 실행 수 - 그 사이에 온 취소 요청은 시작되는 즉시 적용
+  let startingRuns = 0;
+  let cancelStarting = false;
+
+  // Execute workflow - Actually executes the workflow using Claude Code SDK
+  // resume=true면 가장 최근에 끝난 실행의 상태에서 실패한 노드부터 다시 실행
+  // 실행 중 이벤트는 runEventService를 거쳐 실행 room으로 전달 - 시작한 소켓은 바로 구독
+  const runWorkflow = async (data: WorkflowExecutionRequest, resume: boolean) => {
+    console.log(resume ? 'Resuming workflow:' : 'Executing workflow:', data.workflowId);
+
+    // onStarted 전에 실패하면 호출되지 않으므로 실행이 끝난 뒤에도 한 번 더 정리
+    let starting = true;
+    const leaveStarting = () => {
+      if (!starting) return;
+      starting = false;
+      startingRuns--;
+      if (startingRuns === 0) {
+        cancelStarting = false;
+      }
+    };
+
+    startingRuns++;
+    const outcome = await workflowRunService.run(
+      data,
+      { resume },
+      {
+        onStarted: (runId) => {
+          const cancel = cancelStarting;
+          leaveStarting();
+          socketRuns.add(runId);
+          socket.join(runRoom(runId));
+          if (cancel) {
+            workflowRunService.cancel(runId);
+          }
+        },
       }
+    );
+    leaveStarting();
 
-      // 최종 결과 전송
-      socket.emit('workflow:completed', {
+    if (outcome.runId) {
+      socketRuns.delete(outcome.runId);
+      return;
+    }
+
+    // 실행 기록을 만들기 전에 실패 - 보관할 실행이 없으므로 이 소켓에 바로 전송
+    socket.emit('console:log', {
+      type: 'error',
+      message: `실행 오류: ${outcome.error}`,
+      timestamp: new Date().toISOString(),
+    });
+    socket.emit('workflow:error', { workflowId: data.workflowId, error: outcome.error });
+  };
+
+  // 드라이런 - claude를 실행하지 않고 노드별 프롬프트와 실행 설정만 만들어 전송 (실행 기록도 남기지 않음)
+  const dryRunWorkflow = (data: WorkflowExecutionRequest) => {
+    try {
+      const nodes = new WorkflowExecutionService().dryRun({
         workflowId: data.workflowId,
-        results: allResults,
-        outputDir,
+        workflowName: data.workflowName,
+        nodes: data.nodes,
+        edges: data.edges,
+        inputs: data.inputs,
+        outputDir: join(fileService.getProjectPath(), 'output', data.workflowId, '<runId>'),
+        defaultTimeoutMs: data.defaultTimeoutMs,
+        backend: data.backend,
       });
-
+      const result: DryRunResult = { workflowId: data.workflowId, nodes };
+      socket.emit('workflow:dryRun', result);
       socket.emit('console:log', {
         type: 'info',
-        message: `워크플로우 실행 완료! 결과가 ${outputDir}에 저장되었습니다.`,
+        message: `드라이런 완료: ${nodes.filter((n) => n.prompt).length}/${nodes.length}개 노드가 claude를 실행합니다.`,
         timestamp: new Date().toISOString(),
       });
-
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      socket.emit('console:log', {
-        type: 'error',
-        message: `실행 오류: ${errorMessage}`,
-        timestamp: new Date().toISOString(),
-      });
+      console.error('Dry run error:', errorMessage);
       socket.emit('workflow:error', { workflowId: data.workflowId, error: errorMessage });
     }
-  });
+  };
+
+  socket.on('execute:workflow', (data: WorkflowExecutionRequest) =>
+    data.dryRun ? dryRunWorkflow(data) : runWorkflow(data, false)
+  );
+  socket.on('execute:workflow:resume', (data: WorkflowExecutionRequest) => runWorkflow(data, true));
 
   // Execute workflow in Terminal (alternative mode)
   socket.on('execute:workflow:terminal', async (data: WorkflowExecutionRequest) => {
@@ -919,10 +1240,57 @@ io.on('connection', (socket) => {
     }
   });
 
+  // 승인 노드 응답 (approve / reject / edit)
+  socket.on('approval:respond', (data: ApprovalResponse) => {
+    if (!workflowRunService.respondApproval(data)) {
+      socket.emit('console:log', {
+        type: 'warn',
+        message: '이미 처리되었거나 존재하지 않는 승인 요청입니다.',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  });
+
+  // 실행 구독 - afterSeq 이후의 보관된 이벤트를 보낸 뒤 실시간 이벤트를 이어서 받음
+  // 새로고침하거나 재연결한 클라이언트가 진행 중인(또는 막 끝난) 실행을 복원할 때 사용
+  socket.on('subscribe:run', (data: { runId: string; afterSeq?: number }) => {
+    const buffered = runEventService.since(data.runId, data.afterSeq);
+    if (!buffered) {
+      socket.emit('run:subscribed', { runId: data.runId, found: false });
+      return;
+    }
+
+    socket.join(runRoom(data.runId));
+    socket.emit('run:subscribed', {
+      runId: data.runId,
+      found: true,
+      truncated: buffered.truncated,
+      finished: buffered.finished,
+    });
+    for (const { event, payload } of buffered.events) {
+      socket.emit(event, payload);
+    }
+  });
+
+  socket.on('unsubscribe:run', (data: { runId: string }) => {
+    socket.leave(runRoom(data.runId));
+  });
+
   // Cancel workflow execution
-  socket.on('execute:cancel', () => {
+  // runId가 없으면 이 소켓이 시작한 실행을 모두 취소
+  // 실행 중인 워크플로우가 있으면 execute:workflow 핸들러가 부분 결과와 함께 workflow:cancelled를 보냄
+  socket.on('execute:cancel', (data?: { runId?: string }) => {
     claudeService.cancelExecution();
-    socket.emit('workflow:cancelled');
+    const runIds = data?.runId ? [data.runId] : [...socketRuns];
+    const cancelled = runIds.filter((runId) => workflowRunService.cancel(runId));
+    if (!data?.runId && startingRuns > 0) {
+      // 시작 중인 실행은 runId가 정해지면 취소 - workflow:cancelled는 그 실행이 보냄
+      cancelStarting = true;
+      return;
+    }
+    if (cancelled.length === 0) {
+      socket.emit('workflow:cancelled', { runId: data?.runId });
+    }
   });
 
   // Generate skill with real-time progress
@@ -1002,6 +1370,25 @@ async function startServer() {
   httpServer.listen(PORT, () => {
     console.log(`Server running on http://localhost:${PORT}`);
     console.log(`makecc home: ${projectService.getMakeccHome()}`);
+
+    // 예약 실행 - 서버가 떠 있는 동안만 동작
+    scheduleService.start();
+
+    // 오래 방치된 격리 작업 공간 정리 - 이 프로젝트의 실행 기록에는 폐기로 표시
+    workspaceService
+      .cleanup()
+      .then(async (runIds) => {
+        for (const runId of runIds) {
+          const run = await runHistoryService.getRun(runId);
+          if (run?.workspace?.status === 'pending') {
+            await runHistoryService.updateWorkspace(runId, { ...run.workspace, status: 'discarded' });
+          }
+        }
+        if (runIds.length > 0) {
+          console.log(`오래된 작업 공간 ${runIds.length}개를 정리했습니다.`);
+        }
+      })
+      .catch((error) => console.error('작업 공간 정리 실패:', error));
   });
 }
 
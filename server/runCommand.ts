@@ -0,0 +1,260 @@
+import dotenv from 'dotenv';
+import { join, resolve } from 'path';
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { parseArgs } from 'util';
+
+// makecc run - 편집기에서 만든 워크플로우를 UI 없이 실행 (cron, CI용)
+// bin/cli.js가 사용자 프로젝트 경로를 MAKECC_PROJECT_PATH로 넘겨서 실행함
+const projectPath = process.env.MAKECC_PROJECT_PATH || process.cwd();
+const envPath = join(projectPath, '.env');
+if (existsSync(envPath)) {
+  dotenv.config({ path: envPath });
+} else {
+  dotenv.config();
+}
+
+import { isFailedResult, workflowRunService } from './services/workflowRunService';
+import { workflowDefinitionService } from './services/workflowDefinitionService';
+import { resolveInputs } from './utils/workflowInputs';
+import type {
+  ExecutionBackendId,
+  ExecutionNode,
+  NodeExecutionUpdate,
+  StoredWorkflow,
+  WorkflowExecutionRequest,
+} from './types';
+
+// 종료 코드 - 0: 모든 노드 성공, 1: 실패/취소된 노드가 있음, 2: 잘못된 인자나 워크플로우 파일
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+const BACKENDS: ExecutionBackendId[] = ['cli', 'sdk', 'api'];
+
+const USAGE = `사용법: makecc run <workflow.json | 워크플로우 ID> [옵션]
+
+편집기에서 연 워크플로우는 .makecc/workflows/<ID>.json에 저장되며, 파일 경로나 ID로 실행할 수 있습니다.
+저장된 동시 실행 수, 백엔드, 격리 실행, 타임아웃 설정은 아래 옵션으로 지정하면 덮어씁니다.
+
+옵션:
+  -i, --input <이름=값>       입력 노드 값 (노드 이름 또는 ID, 여러 번 지정 가능)
+  -o, --output-dir <경로>     결과 저장 디렉토리 (기본값: output/<워크플로우 ID>/<실행 ID>)
+      --backend <cli|sdk|api> 노드에 지정되지 않았을 때의 실행 백엔드
+      --max-concurrency <n>   동시에 실행할 최대 노드 수
+      --timeout <초>          노드 기본 타임아웃
+      --auto-approve          승인 노드를 자동으로 승인 (없으면 거부)
+  -h, --help                  도움말`;
+
+class UsageError extends Error {}
+
+// 편집기가 저장한 워크플로우({ id, name, request: {...} }) 또는 갤러리 형식({ id, name, nodes, edges })
+interface WorkflowFile {
+  id?: string;
+  name?: string;
+  request?: Partial<StoredWorkflow['request']>;
+  nodes?: ExecutionNode[];
+  edges?: WorkflowExecutionRequest['edges'];
+}
+
+function timestamp(): string {
+  return new Date().toLocaleTimeString('ko-KR', { hour12: false });
+}
+
+function print(message: string): void {
+  process.stdout.write(`[${timestamp()}] ${message.trimEnd()}\n`);
+}
+
+function parsePositiveNumber(value: string | undefined, option: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new UsageError(`--${option} 값이 올바르지 않습니다: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * 워크플로우 파일 경로 또는 저장된 워크플로우 ID → 실행 요청 (저장된 실행 설정 포함)
+ */
+async function loadWorkflow(target: string): Promise<WorkflowExecutionRequest> {
+  const absolutePath = resolve(projectPath, target);
+
+  let workflow: WorkflowFile | null;
+  if (existsSync(absolutePath)) {
+    try {
+      workflow = JSON.parse(await readFile(absolutePath, 'utf-8')) as WorkflowFile;
+    } catch (error) {
+      throw new UsageError(`워크플로우 파일을 읽을 수 없습니다: ${error instanceof Error ? error.message : error}`);
+    }
+  } else {
+    workflow = await workflowDefinitionService.get(target).catch(() => null);
+    if (!workflow) {
+      throw new UsageError(`워크플로우 파일이나 저장된 워크플로우를 찾을 수 없습니다: ${target}`);
+    }
+  }
+
+  const { nodes = workflow.nodes, edges = workflow.edges, ...settings } = workflow.request ?? {};
+  if (!Array.isArray(nodes) || nodes.length === 0) {
+    throw new UsageError('워크플로우에 노드가 없습니다.');
+  }
+
+  return {
+    ...settings,
+    workflowId: workflow.id || `workflow-${Date.now()}`,
+    workflowName: workflow.name || workflow.id || 'workflow',
+    nodes: nodes.map((node) => ({
+      ...node,
+      data: { ...node.data, status: 'idle' },
+    })),
+    edges: edges ?? [],
+  };
+}
+
+/**
+ * --input 이름=값 → 입력 노드 ID별 값 (노드 ID 또는 이름으로 찾음)
+ */
+function parseInputOptions(request: WorkflowExecutionRequest, values: string[]): Record<string, string> {
+  const named: Record<string, string> = {};
+  for (const value of values) {
+    const separator = value.indexOf('=');
+    if (separator <= 0) {
+      throw new UsageError(`--input은 이름=값 형식이어야 합니다: ${value}`);
+    }
+    named[value.slice(0, separator)] = value.slice(separator + 1);
+  }
+
+  try {
+    return resolveInputs(request.nodes, named);
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      input: { type: 'string', short: 'i', multiple: true },
+      'output-dir': { type: 'string', short: 'o' },
+      backend: { type: 'string' },
+      'max-concurrency': { type: 'string' },
+      timeout: { type: 'string' },
+      'auto-approve': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length !== 1) {
+    throw new UsageError('워크플로우 파일이나 ID를 하나 지정하세요.');
+  }
+
+  const backend = values.backend as ExecutionBackendId | undefined;
+  if (backend && !BACKENDS.includes(backend)) {
+    throw new UsageError(`--backend는 ${BACKENDS.join(', ')} 중 하나여야 합니다.`);
+  }
+
+  const request = await loadWorkflow(positionals[0]);
+  // 지정하지 않은 입력과 설정은 저장된 값 사용
+  request.inputs = { ...request.inputs, ...parseInputOptions(request, values.input ?? []) };
+  request.backend = backend ?? request.backend;
+  request.maxConcurrency = parsePositiveNumber(values['max-concurrency'], 'max-concurrency') ?? request.maxConcurrency;
+  const timeoutSeconds = parsePositiveNumber(values.timeout, 'timeout');
+  request.defaultTimeoutMs = timeoutSeconds ? timeoutSeconds * 1000 : request.defaultTimeoutMs;
+
+  // 지정하지 않으면 실행마다 output/<workflowId>/<runId>
+  const outputDir = values['output-dir'] ? resolve(projectPath, values['output-dir']) : undefined;
+  const labels = new Map(request.nodes.map((n) => [n.id, n.data.label]));
+  const startedAt = new Map<string, number>();
+
+  const runStartedAt = Date.now();
+  let runId: string | undefined;
+
+  // Ctrl+C - 실행 중인 claude 프로세스를 종료하고 부분 결과를 기록한 뒤 종료
+  const handleSignal = () => {
+    if (runId && workflowRunService.cancel(runId)) {
+      print('취소 요청 - 실행 중인 노드를 종료합니다...');
+    }
+  };
+  process.on('SIGINT', handleSignal);
+  process.on('SIGTERM', handleSignal);
+
+  const outcome = await workflowRunService.run(
+    request,
+    { outputDir, trigger: 'cli' },
+    {
+      onStarted: (startedRunId) => {
+        runId = startedRunId;
+        print(`워크플로우 "${request.workflowName}" 실행 시작 (${request.nodes.length}개 노드, 실행 ID ${runId})`);
+      },
+      onProgress: (update: NodeExecutionUpdate) => {
+        const label = labels.get(update.nodeId) || update.nodeId;
+
+        if (update.status === 'running' && !startedAt.has(update.nodeId)) {
+          startedAt.set(update.nodeId, Date.now());
+          print(`▶ ${label}`);
+        } else if (update.status === 'completed') {
+          const elapsed = Date.now() - (startedAt.get(update.nodeId) ?? Date.now());
+          print(`✔ ${label} (${formatDuration(elapsed)})${update.branch ? ` → ${update.branch}` : ''}`);
+        } else if (update.status === 'error') {
+          print(`✖ ${label}: ${update.error || '실패'}`);
+        } else if (update.status === 'skipped') {
+          print(`- ${label} (건너뜀)`);
+        }
+      },
+      onLog: (type, message) => {
+        if (type === 'warn' || type === 'error') {
+          print(`${type === 'error' ? '오류' : '경고'}: ${message}`);
+        }
+      },
+      // 승인할 사람이 없으므로 --auto-approve가 아니면 거부
+      onApproval: (approval) => {
+        const action = values['auto-approve'] ? 'approve' : 'reject';
+        print(`승인 노드 "${approval.label}" ${action === 'approve' ? '자동 승인' : '거부 (--auto-approve 없음)'}`);
+        workflowRunService.respondApproval({ approvalId: approval.approvalId, action });
+      },
+    }
+  );
+
+  process.off('SIGINT', handleSignal);
+  process.off('SIGTERM', handleSignal);
+
+  if (outcome.error) {
+    print(`실행 오류: ${outcome.error}`);
+    return EXIT_FAILED;
+  }
+
+  const elapsed = formatDuration(Date.now() - runStartedAt);
+  const cost = outcome.usage ? `, 비용 $${outcome.usage.costUsd.toFixed(4)}` : '';
+  if (outcome.status === 'completed') {
+    print(`완료 (${elapsed}${cost}) - 결과: ${outcome.outputDir}`);
+    return 0;
+  }
+
+  const failed = outcome.results.filter(isFailedResult);
+  print(
+    outcome.status === 'cancelled'
+      ? `취소됨 - 부분 결과: ${outcome.outputDir}`
+      : `실패 - ${failed.map((r) => r.label).join(', ')} (${elapsed}${cost})`
+  );
+  return EXIT_FAILED;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    if (error instanceof UsageError || (error as NodeJS.ErrnoException).code?.startsWith('ERR_PARSE_ARGS')) {
+      console.error(`오류: ${error.message}\n\n${USAGE}`);
+      process.exit(EXIT_USAGE);
+    }
+    console.error('실행 오류:', error);
+    process.exit(EXIT_FAILED);
+  });
@@ -0,0 +1,149 @@
+import { isAbsolute, relative, resolve, sep } from 'path';
+import { stat } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import { takeSnapshot, diffSnapshots, type FileChange, type FileSnapshot } from '../utils/changeTracker';
+import type { ToolCallRecord } from '../types';
+
+// 경로를 인자로 받아 파일을 만들거나 고치는 도구 (Bash 등 경로를 알 수 없는 도구는 제외)
+const FILE_WRITE_TOOLS: Record<string, string> = {
+  Write: 'file_path',
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  NotebookEdit: 'notebook_path',
+};
+
+export interface ChangeWindow {
+  id: string;
+  workingDirectory: string;
+  exclude: string[];
+  before: FileSnapshot | null; // null이면 스냅샷 없이 도구 호출로 쓴 파일만 변경으로 보고
+  startedAt: number;
+}
+
+/**
+ * 노드 실행 중 작업 디렉토리에서 바뀐 파일 추적
+ * 같은 디렉토리에서 동시에 실행된 노드가 있으면 스냅샷 비교만으로는 누가 바꾼 파일인지 알 수 없으므로,
+ * 그 경우에는 노드가 직접 쓴 파일(도구 호출 경로)만 그 노드의 변경으로 인정한다.
+ * 내용 해시는 디렉토리별 마지막 스냅샷을 캐시로 삼아 크기와 수정 시각이 같은 파일은 다시 읽지 않는다.
+ * 스냅샷을 만들 수 없으면(파일이 너무 많은 경우 등) 노드 실행은 막지 않고 같은 도구 호출 경로 방식으로 보고한다.
+ */
+class ChangeTrackingService {
+  private latest = new Map<string, FileSnapshot>();
+  // 디렉토리 → 진행 중인 추적 ID → 다른 추적과 겹친 적이 있는지
+  private active = new Map<string, Map<string, { overlapped: boolean }>>();
+
+  private async snapshot(workingDirectory: string, exclude: string[]): Promise<FileSnapshot> {
+    const snapshot = await takeSnapshot(workingDirectory, { exclude, previous: this.latest.get(workingDirectory) });
+    this.latest.set(workingDirectory, snapshot);
+    return snapshot;
+  }
+
+  /**
+   * 노드 실행 전 스냅샷 - 실패하면 경고만 남기고 스냅샷 없이 추적
+   */
+  async begin(workingDirectory: string, exclude: string[]): Promise<ChangeWindow> {
+    const startedAt = Date.now();
+    let before: FileSnapshot | null = null;
+    try {
+      before = await this.snapshot(workingDirectory, exclude);
+    } catch (error) {
+      this.warnFallback(error);
+    }
+    const id = randomUUID();
+
+    let windows = this.active.get(workingDirectory);
+    if (!windows) {
+      windows = new Map();
+      this.active.set(workingDirectory, windows);
+    }
+    const overlapped = windows.size > 0;
+    for (const window of windows.values()) {
+      window.overlapped ||= overlapped;
+    }
+    windows.set(id, { overlapped });
+
+    return { id, workingDirectory, exclude, before, startedAt };
+  }
+
+  /**
+   * 노드 실행 후 변경된 파일 (경로순) - 추적은 성공 여부와 상관없이 종료
+   */
+  async end(window: ChangeWindow, toolCalls: ToolCallRecord[]): Promise<FileChange[]> {
+    const windows = this.active.get(window.workingDirectory);
+    const overlapped = windows?.get(window.id)?.overlapped ?? false;
+    windows?.delete(window.id);
+    if (windows?.size === 0) {
+      this.active.delete(window.workingDirectory);
+    }
+
+    if (!window.before) {
+      return this.changesFromToolCalls(window, toolCalls);
+    }
+    let after: FileSnapshot;
+    try {
+      after = await this.snapshot(window.workingDirectory, window.exclude);
+    } catch (error) {
+      this.warnFallback(error);
+      return this.changesFromToolCalls(window, toolCalls);
+    }
+
+    const changes = diffSnapshots(window.before, after);
+    if (!overlapped) return changes;
+
+    const ownPaths = this.writtenPaths(window.workingDirectory, toolCalls);
+    const own = changes.filter((c) => ownPaths.has(c.path));
+    if (own.length < changes.length) {
+      console.warn(
+        `동시에 실행된 노드가 있어 직접 쓰지 않은 변경 ${changes.length - own.length}개는 이 노드의 결과에서 제외합니다: ${window.workingDirectory}`
+      );
+    }
+    return own;
+  }
+
+  private warnFallback(error: unknown): void {
+    console.warn(
+      `파일 변경 추적을 끄고 도구 호출로 쓴 파일만 결과로 보고합니다: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  /**
+   * 스냅샷 없이 도구 호출로 쓴 파일만으로 만든 변경 목록 (경로순)
+   * 실행 시작 이후에 생긴 파일은 created, 그 밖에 남아 있는 파일은 modified로 본다.
+   */
+  private async changesFromToolCalls(window: ChangeWindow, toolCalls: ToolCallRecord[]): Promise<FileChange[]> {
+    const changes: FileChange[] = [];
+    for (const path of [...this.writtenPaths(window.workingDirectory, toolCalls)].sort()) {
+      const absolute = resolve(window.workingDirectory, path);
+      if (window.exclude.some((dir) => absolute === dir || absolute.startsWith(dir + sep))) continue;
+      try {
+        const stats = await stat(absolute);
+        if (!stats.isFile()) continue;
+        const created = stats.birthtimeMs > 0 && stats.birthtimeMs >= window.startedAt;
+        changes.push({ path, change: created ? 'created' : 'modified' });
+      } catch {
+        // 쓴 뒤에 삭제된 파일
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * 도구 호출로 쓴 파일 경로 (작업 디렉토리 기준, / 구분) - 작업 디렉토리 밖의 파일은 제외
+   */
+  private writtenPaths(workingDirectory: string, toolCalls: ToolCallRecord[]): Set<string> {
+    const paths = new Set<string>();
+    for (const call of toolCalls) {
+      const field = FILE_WRITE_TOOLS[call.name];
+      const value = field ? (call.input as Record<string, unknown> | null)?.[field] : undefined;
+      if (typeof value !== 'string') continue;
+
+      const absolute = isAbsolute(value) ? value : resolve(workingDirectory, value);
+      const relPath = relative(workingDirectory, absolute);
+      if (relPath.startsWith('..') || isAbsolute(relPath)) continue;
+      paths.add(relPath.split(sep).join('/'));
+    }
+    return paths;
+  }
+}
+
+export const changeTrackingService = new ChangeTrackingService();
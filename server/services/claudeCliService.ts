@@ -1,42 +1,113 @@
 import { spawn } from 'child_process';
-import { join, basename } from 'path';
-import { existsSync, readdirSync, statSync } from 'fs';
-import { mkdir, copyFile, readdir, stat } from 'fs/promises';
+import { join, dirname, basename } from 'path';
+import { existsSync } from 'fs';
+import { mkdir, copyFile, writeFile } from 'fs/promises';
+import { isWindows } from '../utils/platform';
+import { killProcessTree } from '../utils/process';
+import { createLineSplitter, parseStreamLine, createStreamCollector } from '../utils/streamJson';
+import { changeTrackingService, type ChangeWindow } from './changeTrackingService';
+import { toMcpServerName, writeMcpConfigFile, type McpConfigFile, type McpServerEntry } from './mcpServerService';
+import type { GeneratedFile, PermissionMode, ToolCallRecord, UsageStats } from '../types';
 
 export interface ClaudeCliResult {
   success: boolean;
   stdout: string;
   stderr: string;
   exitCode: number | null;
-  generatedFiles: Array<{ name: string; path: string; type: string }>;
+  timedOut: boolean;
+  cancelled: boolean;
+  generatedFiles: GeneratedFile[]; // 작업 디렉토리에서 바뀐 파일 + 응답 저장 파일
+  toolCalls: ToolCallRecord[]; // 호출 순서대로
+  usage?: UsageStats; // result 이벤트가 없으면(중단/실행 실패) 없음
 }
 
 export interface ClaudeCliOptions {
   prompt: string;
   workingDirectory: string;
-  outputDirectory: string;
+  outputDirectory: string; // 이 실행의 결과 파일을 저장할 디렉토리 (노드마다 따로)
+  excludeFromTracking?: string[]; // 변경 추적에서 제외할 경로 (예: 다른 노드 결과가 저장되는 워크플로우 출력 디렉토리)
   timeoutMs?: number;
+  signal?: AbortSignal; // abort 시 claude 프로세스 그룹 전체를 종료
+  onOutput?: (text: string) => void; // assistant 응답 텍스트가 도착할 때마다 호출
+  mcpServers?: Record<string, McpServerEntry>; // 이 실행에만 연결할 MCP 서버 (임시 설정 파일로 전달)
+  allowedTools?: string[]; // 확인 없이 사용할 수 있는 도구 (--print 모드에서는 확인할 사람이 없음)
+  model?: 'sonnet' | 'opus' | 'haiku'; // 노드 모델 설정 - 없으면 백엔드 기본값
+  appendSystemPrompt?: string; // 기본 시스템 프롬프트 뒤에 덧붙일 지시
+  permissionMode?: PermissionMode;
 }
 
 /**
- * claude -c 명령어를 백그라운드로 실행하고 결과를 캡처합니다.
+ * claude --print 명령어를 백그라운드로 실행하고 결과를 캡처합니다.
  */
 export async function executeClaudeCli(options: ClaudeCliOptions): Promise<ClaudeCliResult> {
-  const { prompt, workingDirectory, outputDirectory, timeoutMs = 300000 } = options; // 기본 5분 타임아웃
+  const {
+    prompt,
+    workingDirectory,
+    outputDirectory,
+    timeoutMs = 300000, // 기본 5분 타임아웃
+    excludeFromTracking,
+    signal,
+    onOutput,
+    mcpServers,
+    allowedTools,
+    model,
+    appendSystemPrompt,
+    permissionMode,
+  } = options;
+
+  if (signal?.aborted) {
+    return {
+      success: false,
+      stdout: '',
+      stderr: 'Execution cancelled',
+      exitCode: null,
+      timedOut: false,
+      cancelled: true,
+      generatedFiles: [],
+      toolCalls: [],
+    };
+  }
 
   // 출력 디렉토리 생성
   if (!existsSync(outputDirectory)) {
     await mkdir(outputDirectory, { recursive: true });
   }
 
-  // 실행 전 working directory 파일 목록 스냅샷
-  const beforeFiles = await getDirectorySnapshot(workingDirectory);
+  // 실행 전 working directory 파일 스냅샷
+  const tracking = await startChangeTracking(workingDirectory, outputDirectory, excludeFromTracking);
+
+  const startedAt = Date.now();
+
+  // --print 옵션으로 결과만 출력 (인터랙티브 모드 없이)
+  // 노드와 워크플로우가 동시에 실행되므로 이전 대화를 이어가지 않고(-c 없이) 실행마다 새 세션으로 시작
+  // stream-json은 메시지 단위 JSON 줄을 바로 내보내므로 실행 중에도 응답을 전달할 수 있음 (--verbose 필요)
+  const args = ['--print', '--output-format', 'stream-json', '--verbose'];
+  let mcpConfig: McpConfigFile | undefined;
+  if (mcpServers && Object.keys(mcpServers).length > 0) {
+    mcpConfig = await writeMcpConfigFile(mcpServers);
+    args.push('--mcp-config', mcpConfig.path);
+  }
+  if (allowedTools && allowedTools.length > 0) {
+    args.push('--allowedTools', allowedTools.join(','));
+  }
+  if (model) {
+    args.push('--model', model);
+  }
+  if (appendSystemPrompt) {
+    args.push('--append-system-prompt', appendSystemPrompt);
+  }
+  if (permissionMode) {
+    args.push('--permission-mode', permissionMode);
+  }
+  // 프롬프트가 도구 목록 인자로 해석되지 않도록 옵션 끝 표시
+  args.push('--', prompt);
 
   return new Promise((resolve) => {
-    // claude -c --print 옵션으로 결과만 출력 (인터랙티브 모드 없이)
-    const proc = spawn('claude', ['-c', '--print', prompt], {
+    const proc = spawn('claude', args, {
       cwd: workingDirectory,
       stdio: ['ignore', 'pipe', 'pipe'],
+      // 별도 프로세스 그룹으로 실행해야 claude가 띄운 하위 프로세스까지 함께 종료할 수 있음
+      detached: !isWindows(),
       env: {
         ...process.env,
         // TERM 설정으로 색상 코드 방지
@@ -45,18 +116,41 @@ export async function executeClaudeCli(options: ClaudeCliOptions): Promise<Claud
       },
     });
 
-    let stdout = '';
+    const collector = createStreamCollector(onOutput, startedAt);
     let stderr = '';
     let timedOut = false;
+    let cancelled = false;
+
+    // error와 close가 모두 올 수 있으므로 설정 파일 삭제는 한 번만 하고, 실패해도 결과 전달을 막지 않음
+    let disposing: Promise<void> | undefined;
+    const disposeMcpConfig = () =>
+      (disposing ??= (mcpConfig?.dispose() ?? Promise.resolve()).catch((err) => {
+        console.warn('Failed to remove MCP config file:', err);
+      }));
+
+    const lines = createLineSplitter((line) => {
+      const event = parseStreamLine(line);
+      if (event) {
+        collector.handleEvent(event);
+      } else {
+        collector.handleRawLine(line);
+      }
+    });
 
     // 타임아웃 설정
     const timer = setTimeout(() => {
       timedOut = true;
-      proc.kill('SIGTERM');
+      killProcessTree(proc);
     }, timeoutMs);
 
+    const handleAbort = () => {
+      cancelled = true;
+      killProcessTree(proc);
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
     proc.stdout?.on('data', (data) => {
-      stdout += data.toString();
+      lines.push(data.toString());
     });
 
     proc.stderr?.on('data', (data) => {
@@ -65,89 +159,113 @@ export async function executeClaudeCli(options: ClaudeCliOptions): Promise<Claud
 
     proc.on('close', async (code) => {
       clearTimeout(timer);
-
-      // 실행 후 새로 생성된 파일 찾기
-      const afterFiles = await getDirectorySnapshot(workingDirectory);
-      const newFiles = findNewFiles(beforeFiles, afterFiles);
-
-      // 새 파일들을 output 디렉토리로 복사
-      const generatedFiles: Array<{ name: string; path: string; type: string }> = [];
-
-      for (const filePath of newFiles) {
-        const fileName = basename(filePath);
-        const destPath = join(outputDirectory, fileName);
-        const fileType = getFileType(fileName);
-
-        try {
-          await copyFile(filePath, destPath);
-          generatedFiles.push({ name: fileName, path: destPath, type: fileType });
-          console.log(`Copied generated file: ${filePath} -> ${destPath}`);
-        } catch (err) {
-          console.error(`Failed to copy file ${filePath}:`, err);
-        }
-      }
-
-      // stdout 결과도 파일로 저장 (결과가 있으면)
-      if (stdout.trim()) {
-        const { writeFile } = await import('fs/promises');
-        const resultPath = join(outputDirectory, 'claude-output.md');
-        await writeFile(resultPath, stdout, 'utf-8');
-        generatedFiles.push({ name: 'claude-output.md', path: resultPath, type: 'markdown' });
+      signal?.removeEventListener('abort', handleAbort);
+      await disposeMcpConfig();
+      lines.flush();
+      const stdout = collector.output;
+      let generatedFiles: GeneratedFile[] = [];
+      try {
+        generatedFiles = await collectGeneratedFiles(tracking, outputDirectory, stdout, collector.toolCalls);
+      } catch (err) {
+        console.warn('Failed to collect generated files:', err);
       }
 
       resolve({
-        success: code === 0 && !timedOut,
+        success: code === 0 && !collector.resultError && !timedOut && !cancelled,
         stdout: timedOut ? stdout + '\n[Execution timed out]' : stdout,
-        stderr,
+        stderr: cancelled ? stderr || 'Execution cancelled' : stderr,
         exitCode: code,
+        timedOut,
+        cancelled,
         generatedFiles,
+        toolCalls: collector.toolCalls,
+        usage: collector.usage,
       });
     });
 
     proc.on('error', (err) => {
       clearTimeout(timer);
+      signal?.removeEventListener('abort', handleAbort);
+      void disposeMcpConfig();
+      void changeTrackingService.end(tracking, []).catch(() => {});
       resolve({
         success: false,
         stdout: '',
         stderr: err.message,
         exitCode: null,
+        timedOut: false,
+        cancelled,
         generatedFiles: [],
+        toolCalls: collector.toolCalls,
       });
     });
   });
 }
 
 /**
- * 디렉토리의 파일 스냅샷 (재귀적으로 1단계까지만)
+ * 노드 실행 전 working directory 변경 추적 시작 (.gitignore 적용)
+ * 결과 파일이 복사되는 출력 디렉토리와, 동시에 실행 중인 다른 워크플로우의 결과가 섞이지 않도록 워크플로우 출력 루트(output/)는 제외
+ * 파일이 너무 많으면 Error
  */
-async function getDirectorySnapshot(dir: string): Promise<Map<string, number>> {
-  const snapshot = new Map<string, number>();
-
-  if (!existsSync(dir)) {
-    return snapshot;
-  }
-
-  try {
-    const entries = await readdir(dir, { withFileTypes: true });
-
-    for (const entry of entries) {
-      // 숨김 파일 및 특정 폴더 제외
-      if (entry.name.startsWith('.') || entry.name === 'node_modules' || entry.name === '__pycache__') {
-        continue;
-      }
+export function startChangeTracking(
+  workingDirectory: string,
+  outputDirectory: string,
+  exclude: string[] = []
+): Promise<ChangeWindow> {
+  return changeTrackingService.begin(workingDirectory, [outputDirectory, join(workingDirectory, 'output'), ...exclude]);
+}
 
-      const fullPath = join(dir, entry.name);
+/**
+ * 실행 중 working directory에서 생성/수정/삭제된 파일을 찾아 생성·수정된 파일은 output 디렉토리로
+ * 복사하고 (상대 경로 유지), 응답 텍스트도 claude-output.md로 저장
+ */
+export async function collectGeneratedFiles(
+  tracking: ChangeWindow,
+  outputDirectory: string,
+  stdout: string,
+  toolCalls: ToolCallRecord[]
+): Promise<GeneratedFile[]> {
+  const workingDirectory = tracking.workingDirectory;
+  const generatedFiles: GeneratedFile[] = [];
+
+  for (const { path: relPath, change } of await changeTrackingService.end(tracking, toolCalls)) {
+    const sourcePath = join(workingDirectory, relPath);
+    const fileType = getFileType(basename(relPath));
+
+    if (change === 'deleted') {
+      generatedFiles.push({ name: relPath, path: sourcePath, type: fileType, change });
+      continue;
+    }
 
-      if (entry.isFile()) {
-        const stats = await stat(fullPath);
-        snapshot.set(fullPath, stats.mtimeMs);
-      }
+    const destPath = join(outputDirectory, relPath);
+    try {
+      await mkdir(dirname(destPath), { recursive: true });
+      await copyFile(sourcePath, destPath);
+      generatedFiles.push({ name: relPath, path: destPath, type: fileType, change });
+      console.log(`Copied ${change} file: ${sourcePath} -> ${destPath}`);
+    } catch (err) {
+      console.error(`Failed to copy file ${sourcePath}:`, err);
     }
-  } catch (err) {
-    console.error('Error reading directory:', err);
   }
 
-  return snapshot;
+  // stdout 결과도 파일로 저장 (결과가 있으면)
+  const resultFile = await saveResultFile(outputDirectory, stdout);
+  if (resultFile) {
+    generatedFiles.push(resultFile);
+  }
+
+  return generatedFiles;
+}
+
+/**
+ * 응답 텍스트를 output 디렉토리의 claude-output.md로 저장 - 빈 응답이면 저장하지 않음
+ */
+export async function saveResultFile(outputDirectory: string, stdout: string): Promise<GeneratedFile | null> {
+  if (!stdout.trim()) return null;
+  const resultPath = join(outputDirectory, 'claude-output.md');
+  await mkdir(outputDirectory, { recursive: true });
+  await writeFile(resultPath, stdout, 'utf-8');
+  return { name: 'claude-output.md', path: resultPath, type: 'markdown' };
 }
 
 /**
@@ -180,24 +298,6 @@ function getFileType(fileName: string): string {
   return typeMap[ext] || 'file';
 }
 
-/**
- * 새로 생성되거나 수정된 파일 찾기
- */
-function findNewFiles(before: Map<string, number>, after: Map<string, number>): string[] {
-  const newFiles: string[] = [];
-
-  for (const [path, mtime] of after) {
-    const beforeMtime = before.get(path);
-
-    // 새 파일이거나 수정된 파일
-    if (beforeMtime === undefined || mtime > beforeMtime) {
-      newFiles.push(path);
-    }
-  }
-
-  return newFiles;
-}
-
 /**
  * 노드별 프롬프트 생성
  */
@@ -209,14 +309,11 @@ export function buildNodePrompt(
   const lines: string[] = [];
 
   if (nodeType === 'agent') {
+    // systemPrompt는 프롬프트가 아니라 시스템 프롬프트로 전달 (appendSystemPrompt)
     const role = nodeData.role as string || 'assistant';
     const description = nodeData.description as string || '';
-    const systemPrompt = nodeData.systemPrompt as string || '';
 
     lines.push(`You are a ${role}.`);
-    if (systemPrompt) {
-      lines.push(systemPrompt);
-    }
     lines.push('');
     lines.push('## Task');
     lines.push(description || 'Complete the following task based on the input.');
@@ -226,13 +323,22 @@ export function buildNodePrompt(
       lines.push(previousResults);
       lines.push('');
     }
-    lines.push('Please complete this task and provide the result.');
+    const outputSchema = nodeData.outputSchema as string || '';
+    if (outputSchema.trim()) {
+      lines.push('Respond with a single JSON value that matches this JSON Schema. Do not include any other text.');
+      lines.push('```json');
+      lines.push(outputSchema.trim());
+      lines.push('```');
+    } else {
+      lines.push('Please complete this task and provide the result.');
+    }
   } else if (nodeType === 'skill') {
     const skillId = nodeData.skillId as string || '';
+    const skillArgs = nodeData.skillArgs as string || '';
     const description = nodeData.description as string || '';
 
     if (skillId) {
-      lines.push(`Execute the skill: /${skillId}`);
+      lines.push(`Execute the skill: /${skillId}${skillArgs ? ` ${skillArgs}` : ''}`);
     }
     lines.push('');
     lines.push('## Task');
@@ -243,6 +349,28 @@ export function buildNodePrompt(
       lines.push(previousResults);
       lines.push('');
     }
+  } else if (nodeType === 'mcp') {
+    lines.push('MCP 서버를 사용하여 작업을 수행해주세요.');
+    lines.push('');
+    lines.push('## MCP 서버 정보');
+    lines.push(`- 서버 이름: ${nodeData.serverName as string}`);
+    lines.push(`- 서버 타입: ${nodeData.serverType as string}`);
+    lines.push(`- 도구 이름: mcp__${toMcpServerName(nodeData.serverName as string || '')}__<도구>`);
+    lines.push('');
+    lines.push('## 이전 단계 결과');
+    lines.push(previousResults || '(없음)');
+    lines.push('');
+    lines.push('## 작업');
+    lines.push('위 MCP 서버를 사용하여 이전 단계의 결과를 처리하세요.');
+  } else if (nodeType === 'condition') {
+    // LLM 조건 - 예/아니오 판정
+    lines.push('다음 내용을 읽고 질문에 YES 또는 NO로만 답하세요. 다른 말은 하지 마세요.');
+    lines.push('');
+    lines.push('## 질문');
+    lines.push(nodeData.question as string || nodeData.description as string || '(질문 없음)');
+    lines.push('');
+    lines.push('## 내용');
+    lines.push(previousResults || '(없음)');
   } else {
     // Generic
     lines.push('## Task');
@@ -8,7 +8,12 @@ import type {
   McpNodeData,
 } from '../types';
 
-type ModelId = 'claude-sonnet-4-20250514' | 'claude-opus-4-20250514' | 'claude-3-5-haiku-20241022';
+// 노드 모델 설정 → API 모델 ID (실행 백엔드도 같은 매핑 사용)
+export const MODEL_IDS: Record<'sonnet' | 'opus' | 'haiku', string> = {
+  sonnet: 'claude-sonnet-4-20250514',
+  opus: 'claude-opus-4-20250514',
+  haiku: 'claude-3-5-haiku-20241022',
+};
 
 export class ClaudeService {
   private client: Anthropic;
@@ -19,15 +24,8 @@ export class ClaudeService {
     this.client = new Anthropic();
   }
 
-  private getModelId(model?: 'sonnet' | 'opus' | 'haiku'): ModelId {
-    switch (model) {
-      case 'opus':
-        return 'claude-opus-4-20250514';
-      case 'haiku':
-        return 'claude-3-5-haiku-20241022';
-      default:
-        return 'claude-sonnet-4-20250514';
-    }
+  private getModelId(model?: 'sonnet' | 'opus' | 'haiku'): string {
+    return MODEL_IDS[model || 'sonnet'];
   }
 
   async executeNode(
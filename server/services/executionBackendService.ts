@@ -0,0 +1,239 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { query, type Options } from '@anthropic-ai/claude-agent-sdk';
+import { existsSync } from 'fs';
+import { mkdir } from 'fs/promises';
+import {
+  executeClaudeCli,
+  collectGeneratedFiles,
+  startChangeTracking,
+  saveResultFile,
+  type ClaudeCliOptions,
+  type ClaudeCliResult,
+} from './claudeCliService';
+import { MODEL_IDS } from './claudeService';
+import { createStreamCollector, type StreamJsonEvent } from '../utils/streamJson';
+import { usageFromSdkResponse } from '../utils/usage';
+import type { ExecutionBackendId } from '../types';
+
+// 백엔드마다 지원하는 옵션이 다름 - api는 도구, MCP 서버, 권한 모드를 무시
+export type BackendRunOptions = ClaudeCliOptions;
+
+/**
+ * 노드 프롬프트를 실제로 실행하는 방법
+ * 모든 백엔드는 CLI와 같은 결과 형태(ClaudeCliResult)를 돌려주므로 실행 서비스는 백엔드를 구분하지 않는다.
+ */
+export interface ExecutionBackend {
+  readonly id: ExecutionBackendId;
+  execute(options: BackendRunOptions): Promise<ClaudeCliResult>;
+}
+
+function failedResult(stderr: string, extra: Partial<ClaudeCliResult> = {}): ClaudeCliResult {
+  return {
+    success: false,
+    stdout: '',
+    stderr,
+    exitCode: null,
+    timedOut: false,
+    cancelled: false,
+    generatedFiles: [],
+    toolCalls: [],
+    ...extra,
+  };
+}
+
+/**
+ * 실행 신호 - 외부 취소(signal)와 타임아웃을 하나의 AbortController로 묶음
+ */
+function createRunSignal(signal: AbortSignal | undefined, timeoutMs: number) {
+  const controller = new AbortController();
+  const state = { timedOut: false, cancelled: false };
+
+  const timer = setTimeout(() => {
+    state.timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const handleAbort = () => {
+    state.cancelled = true;
+    controller.abort();
+  };
+  signal?.addEventListener('abort', handleAbort, { once: true });
+
+  return {
+    controller,
+    state,
+    dispose() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', handleAbort);
+    },
+  };
+}
+
+/**
+ * claude CLI 프로세스 (기본값)
+ */
+export class CliBackend implements ExecutionBackend {
+  readonly id = 'cli' as const;
+
+  execute(options: BackendRunOptions): Promise<ClaudeCliResult> {
+    return executeClaudeCli(options);
+  }
+}
+
+/**
+ * Claude Agent SDK query() - CLI와 같은 에이전트 루프를 프로세스 출력 파싱 없이 메시지로 받음
+ */
+export class AgentSdkBackend implements ExecutionBackend {
+  readonly id = 'sdk' as const;
+
+  async execute(options: BackendRunOptions): Promise<ClaudeCliResult> {
+    const {
+      prompt,
+      workingDirectory,
+      outputDirectory,
+      timeoutMs = 300000,
+      excludeFromTracking,
+      signal,
+      onOutput,
+      model,
+      mcpServers,
+      allowedTools,
+      appendSystemPrompt,
+      permissionMode,
+    } = options;
+
+    if (signal?.aborted) {
+      return failedResult('Execution cancelled', { cancelled: true });
+    }
+
+    if (!existsSync(outputDirectory)) {
+      await mkdir(outputDirectory, { recursive: true });
+    }
+    const tracking = await startChangeTracking(workingDirectory, outputDirectory, excludeFromTracking);
+
+    const startedAt = Date.now();
+    const collector = createStreamCollector(onOutput, startedAt);
+    const run = createRunSignal(signal, timeoutMs);
+    let errorMessage = '';
+
+    try {
+      const sdkOptions: Options = {
+        cwd: workingDirectory,
+        abortController: run.controller,
+        model: model ? MODEL_IDS[model] : undefined,
+        mcpServers,
+        allowedTools,
+        permissionMode,
+        // 기본 시스템 프롬프트(claude_code)를 유지하고 노드 지시만 덧붙임
+        systemPrompt: appendSystemPrompt ? { type: 'preset', preset: 'claude_code', append: appendSystemPrompt } : undefined,
+      };
+      for await (const message of query({ prompt, options: sdkOptions })) {
+        // SDK 메시지는 CLI stream-json 출력과 같은 형식
+        collector.handleEvent(message as StreamJsonEvent);
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : String(error);
+    } finally {
+      run.dispose();
+    }
+
+    const { timedOut, cancelled } = run.state;
+    const stdout = collector.output;
+    let generatedFiles: ClaudeCliResult['generatedFiles'] = [];
+    try {
+      generatedFiles = await collectGeneratedFiles(tracking, outputDirectory, stdout, collector.toolCalls);
+    } catch (error) {
+      console.warn('Failed to collect generated files:', error);
+    }
+    const success = collector.hasResult && !collector.resultError && !errorMessage && !timedOut && !cancelled;
+
+    return {
+      success,
+      stdout: timedOut ? stdout + '\n[Execution timed out]' : stdout,
+      stderr: cancelled ? 'Execution cancelled' : errorMessage,
+      exitCode: success ? 0 : 1,
+      timedOut,
+      cancelled,
+      generatedFiles,
+      toolCalls: collector.toolCalls,
+      usage: collector.usage,
+    };
+  }
+}
+
+/**
+ * Messages API 직접 호출 - 도구 없이 프롬프트에 대한 응답 텍스트만 받음 (ANTHROPIC_API_KEY 필요)
+ */
+export class MessagesApiBackend implements ExecutionBackend {
+  readonly id = 'api' as const;
+  private client: Anthropic | null = null;
+
+  async execute(options: BackendRunOptions): Promise<ClaudeCliResult> {
+    const { prompt, outputDirectory, timeoutMs = 300000, signal, onOutput, model, appendSystemPrompt } = options;
+
+    if (signal?.aborted) {
+      return failedResult('Execution cancelled', { cancelled: true });
+    }
+
+    try {
+      this.client ??= new Anthropic();
+    } catch (error) {
+      return failedResult(error instanceof Error ? error.message : 'Anthropic 클라이언트 생성 실패');
+    }
+
+    if (!existsSync(outputDirectory)) {
+      await mkdir(outputDirectory, { recursive: true });
+    }
+
+    const startedAt = Date.now();
+    const modelId = MODEL_IDS[model || 'sonnet'];
+    const run = createRunSignal(signal, timeoutMs);
+    let text = '';
+
+    try {
+      const stream = this.client.messages.stream(
+        {
+          model: modelId,
+          max_tokens: 8192,
+          ...(appendSystemPrompt ? { system: appendSystemPrompt } : {}),
+          messages: [{ role: 'user', content: prompt }],
+        },
+        { signal: run.controller.signal }
+      );
+      stream.on('text', (delta) => {
+        text += delta;
+        onOutput?.(delta);
+      });
+
+      const message = await stream.finalMessage();
+      const resultFile = await saveResultFile(outputDirectory, text);
+
+      return {
+        success: true,
+        stdout: text,
+        stderr: '',
+        exitCode: 0,
+        timedOut: false,
+        cancelled: false,
+        generatedFiles: resultFile ? [resultFile] : [], // 도구가 없으므로 응답 외의 파일은 생기지 않음
+        toolCalls: [],
+        usage: usageFromSdkResponse(message.model, message.usage, Date.now() - startedAt),
+      };
+    } catch (error) {
+      const { timedOut, cancelled } = run.state;
+      return failedResult(cancelled ? 'Execution cancelled' : error instanceof Error ? error.message : 'API 호출 실패', {
+        stdout: timedOut ? text + '\n[Execution timed out]' : text,
+        exitCode: 1,
+        timedOut,
+        cancelled,
+      });
+    } finally {
+      run.dispose();
+    }
+  }
+}
+
+export const executionBackends: Record<ExecutionBackendId, ExecutionBackend> = {
+  cli: new CliBackend(),
+  sdk: new AgentSdkBackend(),
+  api: new MessagesApiBackend(),
+};
@@ -0,0 +1,183 @@
+import { spawn } from 'child_process';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { isWindows } from '../utils/platform';
+import { killProcessTree } from '../utils/process';
+import { createLineSplitter } from '../utils/streamJson';
+import type { McpNodeData } from '../types';
+
+// claude --mcp-config / Agent SDK mcpServers 항목 형식
+export type McpServerEntry =
+  | { type: 'stdio'; command: string; args?: string[]; env?: Record<string, string> }
+  | { type: 'sse' | 'http'; url: string };
+
+export interface McpConfigFile {
+  path: string;
+  dispose(): Promise<void>;
+}
+
+export interface McpCheckResult {
+  ok: boolean;
+  serverInfo?: { name?: string; version?: string };
+  error?: string;
+}
+
+// stdio 서버가 initialize 요청에 응답할 때까지 기다리는 시간 (npx로 패키지를 받는 경우 포함)
+const DEFAULT_CHECK_TIMEOUT_MS = 30000;
+
+// 확인 결과 오류 메시지에 붙이는 stderr 최대 길이
+const MAX_STDERR_LENGTH = 500;
+
+/**
+ * 설정 파일 키와 도구 이름(mcp__<서버>__<도구>)에 쓸 서버 이름
+ */
+export function toMcpServerName(serverName: string): string {
+  return serverName.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'server';
+}
+
+/**
+ * MCP 노드 설정 → MCP 서버 설정 항목 - 필수 값이 없으면 Error
+ */
+export function buildMcpServerEntry(data: Pick<McpNodeData, 'serverType' | 'serverConfig'>): McpServerEntry {
+  const config = data.serverConfig ?? {};
+
+  if (data.serverType === 'stdio') {
+    const command = config.command?.trim();
+    if (!command) {
+      throw new Error('stdio MCP 서버에는 실행할 명령어(command)가 필요합니다.');
+    }
+    return {
+      type: 'stdio',
+      command,
+      ...(config.args?.length ? { args: config.args } : {}),
+      ...(config.env && Object.keys(config.env).length > 0 ? { env: config.env } : {}),
+    };
+  }
+
+  const url = config.url?.trim();
+  if (!url) {
+    throw new Error(`${data.serverType} MCP 서버에는 URL이 필요합니다.`);
+  }
+  return { type: data.serverType, url };
+}
+
+/**
+ * 로그에 표시할 서버 설정 요약 (환경 변수 값은 제외)
+ */
+export function describeMcpServer(entry: McpServerEntry): string {
+  return entry.type === 'stdio'
+    ? `stdio: ${[entry.command, ...(entry.args ?? [])].join(' ')}`
+    : `${entry.type}: ${entry.url}`;
+}
+
+/**
+ * claude --mcp-config에 넘길 임시 설정 파일 생성 - 실행이 끝나면 dispose()로 삭제
+ * 환경 변수에 토큰이 들어갈 수 있으므로 명령줄 대신 본인만 읽을 수 있는 파일로 전달
+ */
+export async function writeMcpConfigFile(servers: Record<string, McpServerEntry>): Promise<McpConfigFile> {
+  const dir = await mkdtemp(join(tmpdir(), 'makecc-mcp-'));
+  const path = join(dir, 'mcp.json');
+  await writeFile(path, JSON.stringify({ mcpServers: servers }, null, 2), { encoding: 'utf-8', mode: 0o600 });
+
+  return {
+    path,
+    dispose: () => rm(dir, { recursive: true, force: true }),
+  };
+}
+
+/**
+ * stdio MCP 서버를 띄워 initialize 요청에 응답하는지 확인한 뒤 종료
+ * npx 등이 띄운 하위 프로세스까지 정리하도록 프로세스 그룹 단위로 종료
+ */
+export function checkStdioMcpServer(
+  entry: Extract<McpServerEntry, { type: 'stdio' }>,
+  cwd: string,
+  signal?: AbortSignal,
+  timeoutMs = DEFAULT_CHECK_TIMEOUT_MS
+): Promise<McpCheckResult> {
+  if (signal?.aborted) {
+    return Promise.resolve({ ok: false, error: '취소되었습니다.' });
+  }
+
+  return new Promise((resolve) => {
+    const proc = spawn(entry.command, entry.args ?? [], {
+      cwd,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      // Windows에서 npx 등 .cmd 명령어를 실행하려면 셸이 필요
+      shell: isWindows(),
+      // Unix에서는 새 프로세스 그룹으로 실행해 종료 시 하위 프로세스까지 정리
+      detached: !isWindows(),
+      env: { ...process.env, ...entry.env },
+    });
+
+    let stderr = '';
+    let settled = false;
+
+    const finish = (result: McpCheckResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', handleAbort);
+      proc.stdin?.end();
+      killProcessTree(proc);
+      resolve(result);
+    };
+
+    const withStderr = (message: string) => {
+      const detail = stderr.trim().slice(-MAX_STDERR_LENGTH);
+      return detail ? `${message}\n${detail}` : message;
+    };
+
+    const timer = setTimeout(() => {
+      finish({ ok: false, error: withStderr(`${Math.round(timeoutMs / 1000)}초 안에 initialize 요청에 응답하지 않았습니다.`) });
+    }, timeoutMs);
+
+    const handleAbort = () => finish({ ok: false, error: '취소되었습니다.' });
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    // stdio 전송은 줄 단위 JSON-RPC 메시지
+    const lines = createLineSplitter((line) => {
+      let message: { id?: unknown; result?: { serverInfo?: McpCheckResult['serverInfo'] }; error?: { message?: string } };
+      try {
+        message = JSON.parse(line);
+      } catch {
+        return; // 서버가 stdout에 찍은 로그
+      }
+      if (message.id !== 1) return;
+
+      if (message.error) {
+        finish({ ok: false, error: `initialize 실패: ${message.error.message || '알 수 없는 오류'}` });
+      } else {
+        finish({ ok: true, serverInfo: message.result?.serverInfo });
+      }
+    });
+
+    proc.stdout?.on('data', (data) => lines.push(data.toString()));
+    proc.stderr?.on('data', (data) => {
+      stderr += data.toString();
+    });
+    proc.stdin?.on('error', () => {
+      // 프로세스가 먼저 종료된 경우 - close 이벤트에서 처리
+    });
+
+    proc.on('error', (err) => finish({ ok: false, error: `서버를 실행할 수 없습니다: ${err.message}` }));
+    proc.on('close', (code) => {
+      lines.flush();
+      finish({ ok: false, error: withStderr(`initialize 응답 전에 서버가 종료되었습니다 (코드 ${code}).`) });
+    });
+
+    proc.stdin?.write(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: {
+          protocolVersion: '2025-03-26',
+          capabilities: {},
+          clientInfo: { name: 'makecc', version: '1.0.0' },
+        },
+      }) + '\n'
+    );
+  });
+}
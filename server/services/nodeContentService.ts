@@ -1,6 +1,7 @@
 import Anthropic from '@anthropic-ai/sdk';
 import type { ApiSettings } from './workflowAIService';
 import { skillGeneratorService } from './skillGeneratorService';
+import { usageService } from './usageService';
 
 export interface NodeContentRequest {
   nodeType: 'agent' | 'skill' | 'hook';
@@ -119,6 +120,7 @@ class NodeContentService {
   ): Promise<AgentContent> {
     const client = await this.getClient(settings);
 
+    const startedAt = Date.now();
     const response = await client.messages.create({
       model: 'claude-sonnet-4-20250514',
       max_tokens: 2048,
@@ -133,6 +135,7 @@ ${prompt}`,
       ],
       system: AGENT_SYSTEM_PROMPT,
     });
+    usageService.record('nodeContent', response, startedAt);
 
     const content = response.content[0];
     if (content.type !== 'text') {
@@ -199,6 +202,7 @@ ${prompt}`,
   ): Promise<HookContent> {
     const client = await this.getClient(settings);
 
+    const startedAt = Date.now();
     const response = await client.messages.create({
       model: 'claude-sonnet-4-20250514',
       max_tokens: 1024,
@@ -213,6 +217,7 @@ ${prompt}`,
       ],
       system: HOOK_SYSTEM_PROMPT,
     });
+    usageService.record('nodeContent', response, startedAt);
 
     const content = response.content[0];
     if (content.type !== 'text') {
@@ -0,0 +1,83 @@
+// 실행이 끝난 뒤에도 이벤트를 보관하는 시간 - 새로고침 직후 다시 구독하면 종료 이벤트까지 받을 수 있도록
+const RETENTION_MS = 10 * 60 * 1000;
+
+// 실행 하나에 보관하는 최대 이벤트 수 - 넘으면 오래된 것부터 버림 (node:output 조각이 대부분)
+const MAX_EVENTS_PER_RUN = 5000;
+
+export interface RunEvent {
+  seq: number; // 실행마다 1부터 증가 - 클라이언트는 마지막으로 받은 seq 이후부터 다시 받음
+  event: string;
+  payload: Record<string, unknown>; // 소켓으로 보내는 데이터 (seq 포함)
+}
+
+interface RunEventBuffer {
+  events: RunEvent[];
+  nextSeq: number;
+  finished: boolean;
+}
+
+type RunEventListener = (runId: string, event: RunEvent) => void;
+
+/**
+ * 실행별 이벤트 버퍼
+ * 소켓이 끊기거나 페이지를 새로고침해도 subscribe:run으로 놓친 이벤트를 다시 받을 수 있도록
+ * 실행 중 이벤트를 순서 번호와 함께 보관한다.
+ */
+class RunEventService {
+  private buffers = new Map<string, RunEventBuffer>();
+  private listeners = new Set<RunEventListener>();
+
+  /**
+   * 이벤트를 보관하고 구독자에게 전달
+   */
+  push(runId: string, event: string, data: object): RunEvent {
+    let buffer = this.buffers.get(runId);
+    if (!buffer) {
+      buffer = { events: [], nextSeq: 1, finished: false };
+      this.buffers.set(runId, buffer);
+    }
+
+    const seq = buffer.nextSeq++;
+    const runEvent: RunEvent = { seq, event, payload: { ...data, runId, seq } };
+    buffer.events.push(runEvent);
+    if (buffer.events.length > MAX_EVENTS_PER_RUN) {
+      buffer.events.shift();
+    }
+
+    for (const listener of this.listeners) {
+      listener(runId, runEvent);
+    }
+    return runEvent;
+  }
+
+  /**
+   * afterSeq 이후의 이벤트 - 보관 중인 실행이 아니면 null
+   * truncated: 버퍼 한도를 넘어 요청한 이벤트 일부가 이미 버려짐
+   */
+  since(runId: string, afterSeq = 0): { events: RunEvent[]; truncated: boolean; finished: boolean } | null {
+    const buffer = this.buffers.get(runId);
+    if (!buffer) return null;
+
+    const events = buffer.events.filter((e) => e.seq > afterSeq);
+    const firstSeq = buffer.events[0]?.seq ?? buffer.nextSeq;
+    return { events, truncated: afterSeq + 1 < firstSeq, finished: buffer.finished };
+  }
+
+  /**
+   * 실행 종료 - 보관 시간이 지나면 버퍼 삭제
+   */
+  finish(runId: string): void {
+    const buffer = this.buffers.get(runId);
+    if (!buffer) return;
+
+    buffer.finished = true;
+    setTimeout(() => this.buffers.delete(runId), RETENTION_MS).unref();
+  }
+
+  onEvent(listener: RunEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
+
+export const runEventService = new RunEventService();
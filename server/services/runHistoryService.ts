@@ -0,0 +1,239 @@
+import { join } from 'path';
+import { existsSync } from 'fs';
+import { mkdir, readFile, readdir, unlink, writeFile } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import type {
+  NodeExecutionUpdate,
+  RunRecord,
+  RunStatus,
+  RunSummary,
+  RunTrigger,
+  WorkflowExecutionRequest,
+  WorkflowResultPayload,
+  WorkspaceInfo,
+} from '../types';
+import { sumUsage } from '../utils/usage';
+
+// 실행이 끝난 것으로 보는 노드 상태
+const FINISHED_STATUSES = new Set(['completed', 'error', 'cancelled', 'skipped']);
+
+// runId는 파일 이름으로 쓰이므로 경로 조작 문자를 허용하지 않음
+const RUN_ID_PATTERN = /^[\w-]+$/;
+
+/**
+ * 워크플로우 실행 기록 저장소
+ * 실행마다 <projectRoot>/.makecc/runs/<runId>.json 파일 하나를 남긴다.
+ * 실행 중인 기록은 메모리에 두고 노드 상태가 바뀔 때마다 갱신, 시작과 종료 시점에 파일로 저장한다.
+ */
+class RunHistoryService {
+  private projectRoot: string;
+  private activeRuns = new Map<string, RunRecord>();
+
+  constructor(projectRoot?: string) {
+    this.projectRoot = projectRoot || process.env.MAKECC_PROJECT_PATH || process.cwd();
+  }
+
+  private get runsDir(): string {
+    return join(this.projectRoot, '.makecc', 'runs');
+  }
+
+  private runPath(runId: string): string {
+    if (!RUN_ID_PATTERN.test(runId)) {
+      throw new Error(`잘못된 실행 ID: ${runId}`);
+    }
+    return join(this.runsDir, `${runId}.json`);
+  }
+
+  private async save(record: RunRecord): Promise<void> {
+    await mkdir(this.runsDir, { recursive: true });
+    await writeFile(this.runPath(record.runId), JSON.stringify(record, null, 2), 'utf-8');
+  }
+
+  /**
+   * 실행 시작 - running 상태의 기록 생성
+   * runId를 넘기면 그 ID를 사용 (출력 디렉토리 이름 등에 미리 쓴 경우)
+   */
+  async startRun(
+    request: WorkflowExecutionRequest,
+    outputDir: string,
+    resumed = false,
+    origin: { runId?: string; trigger?: RunTrigger; scheduleId?: string } = {}
+  ): Promise<RunRecord> {
+    const record: RunRecord = {
+      runId: origin.runId ?? randomUUID(),
+      workflowId: request.workflowId,
+      workflowName: request.workflowName,
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      resumed: resumed || undefined,
+      trigger: origin.trigger,
+      scheduleId: origin.scheduleId,
+      inputs: request.inputs || {},
+      outputDir,
+      nodes: request.nodes.map((node) => ({
+        nodeId: node.id,
+        label: node.data.label,
+        type: node.type,
+        status: 'idle',
+      })),
+      results: [],
+    };
+
+    this.activeRuns.set(record.runId, record);
+    await this.save(record);
+    return record;
+  }
+
+  /**
+   * 노드 상태 변경 반영 - 처음 running이 된 시각과 끝난 시각으로 소요 시간 계산
+   */
+  recordNodeUpdate(runId: string, update: NodeExecutionUpdate): void {
+    const node = this.activeRuns.get(runId)?.nodes.find((n) => n.nodeId === update.nodeId);
+    if (!node) return;
+
+    const now = new Date().toISOString();
+    node.status = update.status;
+
+    if (update.status === 'running' && !node.startedAt) {
+      node.startedAt = now;
+    }
+    if (update.attempt !== undefined) {
+      node.attempts = update.attempt;
+    }
+    if (update.error) {
+      node.error = update.error;
+    }
+    if (FINISHED_STATUSES.has(update.status)) {
+      node.finishedAt = now;
+      if (node.startedAt) {
+        node.durationMs = Date.parse(now) - Date.parse(node.startedAt);
+      }
+    }
+  }
+
+  /**
+   * 실행 종료 - 최종 결과로 노드 상태를 확정하고 파일로 저장
+   */
+  async finishRun(
+    runId: string,
+    status: Exclude<RunStatus, 'running'>,
+    results: WorkflowResultPayload[],
+    error?: string
+  ): Promise<RunRecord | null> {
+    const record = this.activeRuns.get(runId);
+    if (!record) return null;
+
+    const finishedAt = new Date().toISOString();
+    record.status = status;
+    record.finishedAt = finishedAt;
+    record.durationMs = Date.parse(finishedAt) - Date.parse(record.startedAt);
+    record.results = results;
+    record.usage = sumUsage(results.map((r) => r.usage));
+    record.error = error;
+
+    for (const result of results) {
+      const node = record.nodes.find((n) => n.nodeId === result.nodeId);
+      if (!node) continue;
+      node.status = result.skipped
+        ? 'skipped'
+        : result.cancelled
+          ? 'cancelled'
+          : result.success
+            ? 'completed'
+            : 'error';
+      node.error = result.error;
+    }
+
+    this.activeRuns.delete(runId);
+    await this.save(record);
+    return record;
+  }
+
+  /**
+   * 격리 작업 공간 정보 기록 - 실행 중이면 종료 시 함께 저장, 끝난 실행이면 (적용/폐기) 바로 저장
+   */
+  async updateWorkspace(runId: string, workspace: WorkspaceInfo): Promise<void> {
+    const active = this.activeRuns.get(runId);
+    if (active) {
+      active.workspace = workspace;
+      return;
+    }
+
+    const record = await this.getRun(runId);
+    if (!record) return;
+    record.workspace = workspace;
+    await this.save(record);
+  }
+
+  /**
+   * 실행 기록 목록 (최신순, 결과 본문 제외)
+   */
+  async listRuns(workflowId?: string): Promise<RunSummary[]> {
+    if (!existsSync(this.runsDir)) {
+      return [];
+    }
+
+    const summaries: RunSummary[] = [];
+    const entries = await readdir(this.runsDir);
+
+    for (const entry of entries) {
+      if (!entry.endsWith('.json')) continue;
+      try {
+        const record = JSON.parse(await readFile(join(this.runsDir, entry), 'utf-8')) as RunRecord;
+        if (workflowId && record.workflowId !== workflowId) continue;
+        summaries.push({
+          runId: record.runId,
+          workflowId: record.workflowId,
+          workflowName: record.workflowName,
+          status: record.status,
+          startedAt: record.startedAt,
+          finishedAt: record.finishedAt,
+          durationMs: record.durationMs,
+          resumed: record.resumed,
+          usage: record.usage,
+          trigger: record.trigger,
+          scheduleId: record.scheduleId,
+        });
+      } catch (error) {
+        console.error(`실행 기록 읽기 실패 (${entry}):`, error);
+      }
+    }
+
+    return summaries.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  /**
+   * 워크플로우의 가장 최근에 끝난 실행 - 실패 지점부터 재실행할 때 이전 실행 상태를 찾는 데 사용
+   */
+  async getLatestFinishedRun(workflowId: string): Promise<RunRecord | null> {
+    const latest = (await this.listRuns(workflowId)).find((run) => run.status !== 'running');
+    return latest ? this.getRun(latest.runId) : null;
+  }
+
+  async getRun(runId: string): Promise<RunRecord | null> {
+    const active = this.activeRuns.get(runId);
+    if (active) return active;
+    if (!RUN_ID_PATTERN.test(runId)) return null;
+
+    const path = this.runPath(runId);
+    if (!existsSync(path)) return null;
+    return JSON.parse(await readFile(path, 'utf-8')) as RunRecord;
+  }
+
+  /**
+   * 실행 기록 삭제 - 실행 중인 기록은 삭제할 수 없음
+   */
+  async deleteRun(runId: string): Promise<boolean> {
+    if (this.activeRuns.has(runId)) {
+      throw new Error('실행 중인 기록은 삭제할 수 없습니다.');
+    }
+    if (!RUN_ID_PATTERN.test(runId)) return false;
+
+    const path = this.runPath(runId);
+    if (!existsSync(path)) return false;
+    await unlink(path);
+    return true;
+  }
+}
+
+export const runHistoryService = new RunHistoryService();
@@ -0,0 +1,212 @@
+import { join } from 'path';
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import { isFailedResult, workflowRunService } from './workflowRunService';
+import { matchesCron, nextCronTime, parseCron } from '../utils/cron';
+import type { WorkflowSchedule } from '../types';
+
+export type ScheduleInput = Pick<WorkflowSchedule, 'workflowId' | 'workflowName' | 'cron' | 'inputs' | 'request'>;
+
+type ScheduleListener = (schedules: WorkflowSchedule[]) => void;
+
+/**
+ * 예약 실행 저장소와 실행기
+ * 예약은 <projectRoot>/.makecc/schedules.json에 저장하고, 서버가 떠 있는 동안 매 분 cron 표현식을 확인해 실행한다.
+ * 실행은 편집기와 같은 workflowRunService를 거치므로 실행 기록에 trigger: 'schedule'로 남는다.
+ */
+class ScheduleService {
+  private projectRoot: string;
+  private schedules: WorkflowSchedule[] | null = null;
+  private listeners = new Set<ScheduleListener>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(projectRoot?: string) {
+    this.projectRoot = projectRoot || process.env.MAKECC_PROJECT_PATH || process.cwd();
+  }
+
+  private get filePath(): string {
+    return join(this.projectRoot, '.makecc', 'schedules.json');
+  }
+
+  private async load(): Promise<WorkflowSchedule[]> {
+    if (this.schedules) return this.schedules;
+
+    if (existsSync(this.filePath)) {
+      try {
+        const parsed = JSON.parse(await readFile(this.filePath, 'utf-8'));
+        this.schedules = Array.isArray(parsed.schedules) ? parsed.schedules : [];
+      } catch (error) {
+        console.error('Failed to read schedules:', error);
+        this.schedules = [];
+      }
+    } else {
+      this.schedules = [];
+    }
+    return this.schedules!;
+  }
+
+  private async save(): Promise<void> {
+    await mkdir(join(this.projectRoot, '.makecc'), { recursive: true });
+    await writeFile(this.filePath, JSON.stringify({ schedules: this.schedules ?? [] }, null, 2), 'utf-8');
+
+    const schedules = await this.list();
+    for (const listener of this.listeners) {
+      listener(schedules);
+    }
+  }
+
+  private withNextRun(schedule: WorkflowSchedule, now: Date): WorkflowSchedule {
+    try {
+      const next = nextCronTime(parseCron(schedule.cron), now);
+      return { ...schedule, nextRunAt: next?.toISOString() };
+    } catch {
+      return { ...schedule, nextRunAt: undefined };
+    }
+  }
+
+  /**
+   * 예약 목록 (workflowId가 있으면 해당 워크플로우만) - 다음 실행 시각 포함
+   */
+  async list(workflowId?: string): Promise<WorkflowSchedule[]> {
+    const now = new Date();
+    const schedules = await this.load();
+    return schedules
+      .filter((s) => !workflowId || s.workflowId === workflowId)
+      .map((s) => this.withNextRun(s, now));
+  }
+
+  /**
+   * 예약 추가 - cron 표현식이 잘못되면 Error
+   */
+  async create(input: ScheduleInput): Promise<WorkflowSchedule> {
+    const cron = input.cron.trim();
+    parseCron(cron);
+
+    const schedule: WorkflowSchedule = {
+      id: randomUUID(),
+      workflowId: input.workflowId,
+      workflowName: input.workflowName,
+      cron,
+      inputs: input.inputs ?? {},
+      request: {
+        nodes: input.request.nodes,
+        edges: input.request.edges,
+        maxConcurrency: input.request.maxConcurrency,
+        defaultTimeoutMs: input.request.defaultTimeoutMs,
+        backend: input.request.backend,
+        isolation: input.request.isolation,
+      },
+      createdAt: new Date().toISOString(),
+    };
+
+    const schedules = await this.load();
+    schedules.push(schedule);
+    await this.save();
+    return this.withNextRun(schedule, new Date());
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const schedules = await this.load();
+    const index = schedules.findIndex((s) => s.id === id);
+    if (index === -1) return false;
+
+    schedules.splice(index, 1);
+    await this.save();
+    return true;
+  }
+
+  onChange(listener: ScheduleListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * 매 분 0초에 예약을 확인하는 타이머 시작
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const scheduleTick = () => {
+      const now = Date.now();
+      this.timer = setTimeout(() => {
+        this.tick(new Date()).catch((error) => console.error('Schedule tick error:', error));
+        scheduleTick();
+      }, 60_000 - (now % 60_000));
+    };
+    scheduleTick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * now가 속한 분에 실행할 예약을 모두 시작
+   */
+  async tick(now: Date): Promise<void> {
+    const schedules = await this.load();
+    const due = schedules.filter((s) => {
+      try {
+        return matchesCron(parseCron(s.cron), now);
+      } catch {
+        return false;
+      }
+    });
+
+    await Promise.all(due.map((schedule) => this.runSchedule(schedule)));
+  }
+
+  private async runSchedule(schedule: WorkflowSchedule): Promise<void> {
+    schedule.lastRunAt = new Date().toISOString();
+
+    console.log(`예약 실행 시작: ${schedule.workflowName} (${schedule.cron})`);
+
+    const outcome = await workflowRunService.run(
+      {
+        workflowId: schedule.workflowId,
+        workflowName: schedule.workflowName,
+        ...schedule.request,
+        nodes: schedule.request.nodes.map((node) => ({ ...node, data: { ...node.data, status: 'idle' } })),
+        inputs: schedule.inputs,
+      },
+      { trigger: 'schedule', scheduleId: schedule.id },
+      {
+        onStarted: (runId) => {
+          schedule.lastRunId = runId;
+        },
+        onLog: (type, message) => {
+          if (type === 'error') {
+            console.error(`[예약 ${schedule.workflowName}] ${message}`);
+          }
+        },
+        // 승인할 사람이 없으므로 승인 노드는 거부
+        onApproval: (approval) => {
+          workflowRunService.respondApproval({ approvalId: approval.approvalId, action: 'reject' });
+        },
+      }
+    );
+
+    schedule.lastRunId = outcome.runId;
+    schedule.lastStatus = outcome.status;
+    schedule.lastError =
+      outcome.error ??
+      (outcome.status === 'failed'
+        ? outcome.results
+            .filter(isFailedResult)
+            .map((r) => `${r.label}: ${r.error || '실패'}`)
+            .join(', ')
+        : undefined);
+    console.log(`예약 실행 종료: ${schedule.workflowName} (${outcome.status})`);
+
+    // 실행 중 예약이 삭제됐으면 저장하지 않음
+    if (this.schedules?.includes(schedule)) {
+      await this.save();
+    }
+  }
+}
+
+export const scheduleService = new ScheduleService();
@@ -6,6 +6,7 @@ import { spawn } from 'child_process';
 import type { ApiSettings } from './workflowAIService';
 import { claudeMdService } from './claudeMdService';
 import { credentialsService } from './credentialsService';
+import { usageService } from './usageService';
 import {
   checkCommandExists,
   getVenvPythonPath,
@@ -421,6 +422,7 @@ Generate complete, working code. Respond with JSON only.${claudeMdContext}`;
         detail: 'Python 스크립트와 설정 파일 작성 중...',
       });
 
+      const startedAt = Date.now();
       const response = await client.messages.create({
         model: 'claude-sonnet-4-20250514',
         max_tokens: 8192,
@@ -430,6 +432,7 @@ Generate complete, working code. Respond with JSON only.${claudeMdContext}`;
           { role: 'assistant', content: '{' }  // Prefill to force JSON
         ],
       });
+      usageService.record('skillGenerator', response, startedAt);
 
       let responseText = '';
       for (const block of response.content) {
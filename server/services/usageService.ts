@@ -0,0 +1,59 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import type { UsageStats } from '../types';
+import { sumUsage, usageFromSdkResponse } from '../utils/usage';
+
+// Anthropic SDK를 직접 호출하는 곳 - 워크플로우 실행(CLI) 사용량은 실행 기록에 따로 남음
+export type UsageSource = 'workflowAI' | 'skillGenerator' | 'nodeContent';
+
+export interface UsageSummary {
+  total?: UsageStats;
+  bySource: Partial<Record<UsageSource, UsageStats>>;
+}
+
+type UsageListener = (summary: UsageSummary) => void;
+
+/**
+ * 서버가 떠 있는 동안의 AI 생성(SDK 호출) 사용량 집계
+ */
+class UsageService {
+  private bySource: Partial<Record<UsageSource, UsageStats>> = {};
+  private listeners = new Set<UsageListener>();
+
+  /**
+   * SDK 응답 한 건의 사용량을 더하고 구독자에게 알림
+   * 집계는 부가 기능이므로 실패해도 호출한 쪽(생성 결과)에는 영향을 주지 않는다.
+   */
+  record(
+    source: UsageSource,
+    response: Partial<Pick<Anthropic.Message, 'model' | 'usage'>> | null | undefined,
+    startedAt: number
+  ): UsageStats | undefined {
+    try {
+      const usage = usageFromSdkResponse(response?.model, response?.usage, Date.now() - startedAt);
+      this.bySource[source] = sumUsage([this.bySource[source], usage]);
+
+      const summary = this.getSummary();
+      for (const listener of this.listeners) {
+        listener(summary);
+      }
+      return usage;
+    } catch (error) {
+      console.error('사용량 집계 실패:', error);
+      return undefined;
+    }
+  }
+
+  getSummary(): UsageSummary {
+    return {
+      total: sumUsage(Object.values(this.bySource)),
+      bySource: { ...this.bySource },
+    };
+  }
+
+  onChange(listener: UsageListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
+
+export const usageService = new UsageService();
@@ -2,6 +2,7 @@ import Anthropic from '@anthropic-ai/sdk';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 import { skillGeneratorService } from './skillGeneratorService';
+import { usageService } from './usageService';
 
 // API 설정 타입
 export interface ApiSettings {
@@ -227,12 +228,14 @@ export class WorkflowAIService {
     let responseText = '';
 
     // Anthropic SDK 사용
+    const startedAt = Date.now();
     const response = await client.messages.create({
       model: 'claude-sonnet-4-20250514',
       max_tokens: 4096,
       system: SYSTEM_PROMPT,
       messages: [{ role: 'user', content: userPrompt }],
     });
+    usageService.record('workflowAI', response, startedAt);
 
     // 응답에서 텍스트 추출
     for (const block of response.content) {
@@ -453,12 +456,14 @@ ${agent.config.systemPrompt ? `기존 프롬프트 (확장 필요):\n${agent.con
 
 이 에이전트를 위한 상세하고 실행 가능한 system prompt를 작성해주세요.`;
 
+    const startedAt = Date.now();
     const response = await client.messages.create({
       model: 'claude-sonnet-4-20250514',
       max_tokens: 2048,
       system: systemPrompt,
       messages: [{ role: 'user', content: userPrompt }],
     });
+    usageService.record('workflowAI', response, startedAt);
 
     let result = '';
     for (const block of response.content) {
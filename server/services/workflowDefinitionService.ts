@@ -0,0 +1,105 @@
+import { join } from 'path';
+import { existsSync } from 'fs';
+import { mkdir, readFile, readdir, unlink, writeFile } from 'fs/promises';
+import type { StoredWorkflow } from '../types';
+
+// 워크플로우 ID는 파일 이름으로 쓰이므로 경로 조작 문자를 허용하지 않음
+const WORKFLOW_ID_PATTERN = /^[\w-]+$/;
+
+export type WorkflowSummary = Pick<StoredWorkflow, 'id' | 'name' | 'updatedAt'> & {
+  inputs: Array<{ id: string; label: string }>; // POST /api/workflows/:id/runs에 넘길 수 있는 입력
+};
+
+/**
+ * 워크플로우 정의 저장소
+ * 편집기의 워크플로우는 브라우저에만 있으므로, 다른 도구가 실행할 수 있도록 서버에도 저장해 둔다.
+ * 워크플로우마다 <projectRoot>/.makecc/workflows/<id>.json 파일 하나
+ */
+class WorkflowDefinitionService {
+  private projectRoot: string;
+
+  constructor(projectRoot?: string) {
+    this.projectRoot = projectRoot || process.env.MAKECC_PROJECT_PATH || process.cwd();
+  }
+
+  private get workflowsDir(): string {
+    return join(this.projectRoot, '.makecc', 'workflows');
+  }
+
+  private workflowPath(id: string): string {
+    if (!WORKFLOW_ID_PATTERN.test(id)) {
+      throw new Error(`잘못된 워크플로우 ID: ${id}`);
+    }
+    return join(this.workflowsDir, `${id}.json`);
+  }
+
+  async save(workflow: Omit<StoredWorkflow, 'updatedAt'>): Promise<StoredWorkflow> {
+    const stored: StoredWorkflow = {
+      id: workflow.id,
+      name: workflow.name,
+      request: {
+        // 실행 중 상태(status, progress 등)는 저장하지 않음
+        nodes: workflow.request.nodes.map((node) => ({ ...node, data: { ...node.data, status: 'idle' } })),
+        edges: workflow.request.edges ?? [],
+        inputs: workflow.request.inputs ?? {},
+        maxConcurrency: workflow.request.maxConcurrency,
+        defaultTimeoutMs: workflow.request.defaultTimeoutMs,
+        backend: workflow.request.backend,
+        isolation: workflow.request.isolation,
+      },
+      updatedAt: new Date().toISOString(),
+    };
+
+    const path = this.workflowPath(stored.id);
+    await mkdir(this.workflowsDir, { recursive: true });
+    await writeFile(path, JSON.stringify(stored, null, 2), 'utf-8');
+    return stored;
+  }
+
+  async get(id: string): Promise<StoredWorkflow | null> {
+    if (!WORKFLOW_ID_PATTERN.test(id)) return null;
+
+    const path = this.workflowPath(id);
+    if (!existsSync(path)) return null;
+    return JSON.parse(await readFile(path, 'utf-8')) as StoredWorkflow;
+  }
+
+  /**
+   * 저장된 워크플로우 목록 (최근 수정 순)
+   */
+  async list(): Promise<WorkflowSummary[]> {
+    if (!existsSync(this.workflowsDir)) return [];
+
+    const files = (await readdir(this.workflowsDir)).filter((f) => f.endsWith('.json'));
+    const summaries: WorkflowSummary[] = [];
+
+    for (const file of files) {
+      try {
+        const workflow = JSON.parse(await readFile(join(this.workflowsDir, file), 'utf-8')) as StoredWorkflow;
+        summaries.push({
+          id: workflow.id,
+          name: workflow.name,
+          updatedAt: workflow.updatedAt,
+          inputs: workflow.request.nodes
+            .filter((n) => n.type === 'input')
+            .map((n) => ({ id: n.id, label: n.data.label })),
+        });
+      } catch (error) {
+        console.error(`Failed to read workflow ${file}:`, error);
+      }
+    }
+
+    return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!WORKFLOW_ID_PATTERN.test(id)) return false;
+
+    const path = this.workflowPath(id);
+    if (!existsSync(path)) return false;
+    await unlink(path);
+    return true;
+  }
+}
+
+export const workflowDefinitionService = new WorkflowDefinitionService();
@@ -1,7 +1,22 @@
-import { writeFile, mkdir } from 'fs/promises';
+import { writeFile, readFile, mkdir } from 'fs/promises';
 import { join } from 'path';
 import { existsSync } from 'fs';
-import { executeClaudeCli, buildNodePrompt } from './claudeCliService';
+import { createHash, randomUUID } from 'crypto';
+import { buildNodePrompt, type ClaudeCliOptions, type ClaudeCliResult } from './claudeCliService';
+import { executionBackends, type ExecutionBackend } from './executionBackendService';
+import {
+  buildMcpServerEntry,
+  checkStdioMcpServer,
+  describeMcpServer,
+  toMcpServerName,
+  type McpServerEntry,
+} from './mcpServerService';
+import { evaluateCondition, parseYesNo } from '../utils/condition';
+import { splitItems, type MapItem } from '../utils/mapItems';
+import { parseJsonFromText } from '../utils/json';
+import { validateJsonSchema, type JsonSchema } from '../utils/jsonSchema';
+import { resolveTemplate, type TemplateContext } from '../utils/templateResolver';
+import { sumUsage } from '../utils/usage';
 import type {
   ExecutionNode,
   SubagentNodeData,
@@ -9,13 +24,31 @@ import type {
   InputNodeData,
   OutputNodeData,
   McpNodeData,
+  ConditionNodeData,
+  MapNodeData,
+  ReduceNodeData,
+  ApprovalNodeData,
+  ApprovalRequest,
+  ApprovalResponse,
+  NodeOutputEvent,
+  DryRunNodePlan,
+  ExecutionBackendId,
+  FileChangeKind,
+  GeneratedFile,
+  ToolCallRecord,
+  UsageStats,
   NodeExecutionUpdate,
+  NodeStatus,
+  NodeErrorKind,
+  RetryCondition,
+  RetryPolicy,
 } from '../types';
 
 export interface WorkflowEdge {
   id: string;
   source: string;
   target: string;
+  sourceHandle?: string | null;
 }
 
 export interface ExecutionContext {
@@ -25,28 +58,97 @@ export interface ExecutionContext {
   edges: WorkflowEdge[];
   inputs?: Record<string, string>;
   outputDir: string;
+  maxConcurrency?: number;
+  defaultTimeoutMs?: number; // 노드에 timeoutMs가 없을 때 사용할 워크플로우 기본값
+  backend?: ExecutionBackendId; // 노드에 backend가 없을 때 사용할 워크플로우 기본값
+  resume?: boolean; // 이전 실행 상태(run-state.json)에서 성공한 노드 결과를 재사용
+  resumeFrom?: string; // 이전 실행 상태를 읽을 출력 디렉토리 (기본값: outputDir)
+  workingDirectory?: string; // 에이전트 작업 디렉토리 - 격리 실행이면 작업 공간, 없으면 프로젝트 루트
 }
 
 export interface ExecutionResult {
   nodeId: string;
   success: boolean;
   result?: string;
-  files?: Array<{ path: string; type: string; name: string }>;
+  data?: unknown; // 구조화된 결과 (outputSchema 검증 결과, map 항목, reduce 모음 등)
+  toolCalls?: ToolCallRecord[]; // 에이전트가 호출한 도구 타임라인
+  usage?: UsageStats; // CLI 토큰 사용량/비용 - 재시도했으면 모든 시도의 합계
+  files?: GeneratedFile[];
   error?: string;
+  errorKind?: NodeErrorKind;
+  cancelled?: boolean;
+  skipped?: boolean; // 조건 분기에서 선택되지 않아 실행하지 않음
+  rejected?: boolean; // 승인 노드에서 거부됨 - 이후 노드는 실행하지 않음
+  branch?: string; // 조건 노드가 활성화한 핸들 ('true' | 'false')
+  item?: number; // map 하위 그래프에서 실행된 항목 인덱스 (결과 키는 `${nodeId}#${item}`)
+  itemCount?: number; // map 노드가 나눈 항목 수
+  attempts?: number;
+}
+
+// 출처 노드가 표시된 이전 단계 결과
+interface UpstreamResult {
+  nodeId: string;
+  label: string;
+  result?: string;
+  data?: unknown;
+}
+
+// map 노드 하나가 항목마다 실행하는 하위 그래프
+interface MapPlan {
+  body: ExecutionNode[]; // 위상 정렬 순서
+  reduceId?: string;
+}
+
+// outputDir에 저장되는 실행 상태 (재개용)
+interface RunState {
+  workflowId: string;
+  savedAt: string;
+  nodes: Record<string, { fingerprint: string; result: ExecutionResult }>;
 }
 
 type ProgressCallback = (update: NodeExecutionUpdate) => void;
 type LogCallback = (type: 'info' | 'warn' | 'error' | 'debug', message: string) => void;
+type ApprovalCallback = (request: ApprovalRequest) => void;
+type OutputCallback = (output: NodeOutputEvent) => void;
+
+const RUN_STATE_FILE = 'run-state.json';
+
+// 실행 중에만 바뀌는 필드 - 노드 변경 여부 판단에서 제외
+const RUNTIME_FIELDS = new Set(['status', 'progress', 'error', 'errorKind', 'attempt', 'maxAttempts', 'branch', 'rejected']);
+
+const FILE_CHANGE_LABELS: Record<FileChangeKind, string> = { created: '생성', modified: '수정', deleted: '삭제' };
+
+const BACKEND_LABELS: Record<ExecutionBackendId, string> = { cli: 'claude CLI', sdk: 'Agent SDK', api: 'Messages API' };
+
+// 노드/워크플로우에 타임아웃이 지정되지 않았을 때의 기본값 (5분)
+const DEFAULT_TIMEOUT_MS = 300000;
+
+// 동시에 실행할 수 있는 최대 노드 수 (요청에 값이 없을 때 사용)
+const DEFAULT_MAX_CONCURRENCY = Number(process.env.MAKECC_MAX_CONCURRENCY) || 3;
 
 /**
- * Claude CLI를 사용한 워크플로우 실행 서비스
+ * Claude CLI를 사용한 워크플로우 실행기
+ * 실행 상태(결과, 출력 디렉토리, 취소, 승인 대기)를 인스턴스에 두므로 실행마다 새로 만든다. (workflowRunService)
  */
 export class WorkflowExecutionService {
   private results: Map<string, ExecutionResult> = new Map();
   private outputDir: string = '';
+  private defaultTimeoutMs: number = DEFAULT_TIMEOUT_MS;
+  private defaultBackend: ExecutionBackendId = 'cli';
   private projectRoot: string = '';
-
-  constructor() {
+  private workingDirectory: string = '';
+  // 실행마다 새 인스턴스를 쓰므로 실행 전에 온 취소 요청도 이 컨트롤러에 남아 시작하자마자 적용됨
+  private abortController = new AbortController();
+  private isFinished = false;
+  private reusable: Map<string, ExecutionResult> = new Map();
+  private mapPlans: Map<string, MapPlan> = new Map();
+  private mapScopes: Map<string, string> = new Map(); // 노드 ID → 소속 map 노드 ID (map 노드 자신 포함)
+  private conditionNodeIds: Set<string> = new Set();
+  private onApproval?: ApprovalCallback;
+  private onOutput?: OutputCallback;
+  private pendingApprovals: Map<string, (response: ApprovalResponse | null) => void> = new Map();
+
+  constructor(private backends: Record<ExecutionBackendId, ExecutionBackend> = executionBackends) {
     this.projectRoot = process.env.MAKECC_PROJECT_PATH || process.cwd();
   }
 
@@ -56,10 +158,17 @@ export class WorkflowExecutionService {
   async execute(
     context: ExecutionContext,
     onProgress?: ProgressCallback,
-    onLog?: LogCallback
+    onLog?: LogCallback,
+    onApproval?: ApprovalCallback,
+    onOutput?: OutputCallback
   ): Promise<Map<string, ExecutionResult>> {
     this.results.clear();
+    this.onApproval = onApproval;
+    this.onOutput = onOutput;
     this.outputDir = context.outputDir;
+    this.defaultTimeoutMs = context.defaultTimeoutMs || DEFAULT_TIMEOUT_MS;
+    this.defaultBackend = context.backend || 'cli';
+    this.workingDirectory = context.workingDirectory || this.projectRoot;
 
     // 출력 디렉토리 생성
     if (!existsSync(this.outputDir)) {
@@ -67,33 +176,763 @@ export class WorkflowExecutionService {
     }
 
     const executionOrder = this.topologicalSort(context.nodes, context.edges);
+    const { plans, scopes } = this.planMaps(executionOrder, context.edges);
+    this.mapPlans = plans;
+    this.mapScopes = scopes;
+    this.conditionNodeIds = new Set(context.nodes.filter((n) => n.type === 'condition').map((n) => n.id));
+    const maxConcurrency = Math.max(1, context.maxConcurrency || DEFAULT_MAX_CONCURRENCY);
+    const fingerprints = this.computeFingerprints(executionOrder, context);
+
+    this.reusable = context.resume
+      ? await this.planResume(executionOrder, context, fingerprints)
+      : new Map();
+
+    if (context.resume) {
+      onLog?.(
+        'info',
+        `이전 실행에서 ${this.reusable.size}개 노드 결과를 재사용하고 ${executionOrder.length - this.reusable.size}개 노드를 다시 실행합니다.`
+      );
+    }
+
+    try {
+      // 앞 노드를 모두 실행한 뒤에야 MCP 서버 설정 오류를 알게 되지 않도록 노드 실행 전에 확인
+      const mcpErrors = await this.checkMcpServers(
+        executionOrder.filter((n) => !this.reusable.has(n.id)),
+        onLog
+      );
+      if (mcpErrors.size > 0 && !this.isCancelled) {
+        for (const [nodeId, error] of mcpErrors) {
+          this.results.set(nodeId, { nodeId, success: false, error });
+          onProgress?.({ nodeId, status: 'error', error });
+          onLog?.('error', error);
+        }
+        onLog?.('error', `MCP 서버 확인에 실패해 워크플로우 "${context.workflowName}"을(를) 실행하지 않았습니다.`);
+        return this.results;
+      }
+
+      if (!this.isCancelled) {
+        onLog?.(
+          'info',
+          `워크플로우 "${context.workflowName}" 실행 시작 (${executionOrder.length}개 노드, 최대 ${maxConcurrency}개 동시 실행)`
+        );
+        await this.schedule(executionOrder, context, maxConcurrency, onProgress, onLog);
+      }
+    } finally {
+      this.isFinished = true;
+
+      if (this.isCancelled) {
+        this.markCancelled(executionOrder, onProgress);
+        onLog?.('warn', `워크플로우 "${context.workflowName}" 실행이 취소되었습니다.`);
+      }
+
+      // MCP 확인 실패 등으로 일찍 끝나도 다음 재실행이 이번 결과를 기준으로 하도록 항상 저장
+      await this.saveRunState(context, fingerprints, onLog);
+    }
+
+    return this.results;
+  }
+
+  /**
+   * 드라이런 - claude를 실행하지 않고 노드마다 전달될 프롬프트와 실행 설정을 만든다.
+   * 이전 단계 결과는 입력 노드 값을 제외하고 자리표시자로 채우며, 조건 분기는 모든 엣지가 활성인 것으로 본다.
+   * 실행 중인 워크플로우의 상태(this.results 등)는 건드리지 않는다.
+   */
+  dryRun(context: ExecutionContext): DryRunNodePlan[] {
+    const executionOrder = this.topologicalSort(context.nodes, context.edges);
+    const placeholders = new Map<string, ExecutionResult>();
+    const timeoutOf = (data: { timeoutMs?: number }) =>
+      data.timeoutMs && data.timeoutMs > 0 ? data.timeoutMs : context.defaultTimeoutMs || DEFAULT_TIMEOUT_MS;
+
+    const { scopes } = this.planMaps(executionOrder, context.edges);
+
+    return executionOrder.map((node) => {
+      const notes: string[] = [];
+      const upstream: UpstreamResult[] = context.edges
+        .filter((e) => e.target === node.id)
+        .map((edge) => {
+          const source = context.nodes.find((n) => n.id === edge.source);
+          if (source?.type === 'condition') {
+            notes.push(`조건 "${source.data.label}"의 ${edge.sourceHandle ?? 'true'} 분기에서만 실행됩니다.`);
+          }
+          return {
+            nodeId: edge.source,
+            label: source?.data.label || edge.source,
+            result: placeholders.get(edge.source)?.result,
+          };
+        })
+        .filter((u) => u.result);
+      const previousResults = this.formatPreviousResults(upstream);
+
+      const mapId = scopes.get(node.id);
+      if (mapId && mapId !== node.id) {
+        const mapNode = context.nodes.find((n) => n.id === mapId);
+        notes.push(`map "${mapNode?.data.label || mapId}"의 항목마다 반복 실행됩니다.`);
+      }
+
+      const onLog: LogCallback = (_type, message) => notes.push(message);
+      const plan: DryRunNodePlan = { nodeId: node.id, label: node.data.label, type: node.type, notes };
+      const cli = (prompt: string, data: { timeoutMs?: number; backend?: ExecutionBackendId }) => {
+        plan.prompt = prompt;
+        plan.backend = data.backend || context.backend || 'cli';
+        plan.workingDirectory = context.workingDirectory || this.projectRoot;
+        plan.outputDirectory = context.outputDir;
+        plan.timeoutMs = timeoutOf(data);
+      };
+
+      switch (node.type) {
+        case 'agent': {
+          const resolved = this.resolveNodeTemplates(node, ['systemPrompt', 'description'], context, undefined, onLog, placeholders);
+          const data = resolved.data as SubagentNodeData;
+          cli(buildNodePrompt('agent', data as unknown as Record<string, unknown>, previousResults), data);
+          plan.tools = data.tools;
+          plan.model = data.model;
+          plan.systemPrompt = data.systemPrompt?.trim() || undefined;
+          plan.permissionMode = data.permissionMode;
+          if (plan.backend === 'api' && data.tools?.length) {
+            notes.push('Messages API 백엔드는 도구를 사용할 수 없어 도구 설정이 무시됩니다.');
+          }
+          plan.retry = data.retry;
+          plan.outputSchema = data.outputSchema;
+          break;
+        }
+        case 'skill': {
+          const resolved = this.resolveNodeTemplates(node, ['description', 'skillArgs'], context, undefined, onLog, placeholders);
+          const data = resolved.data as SkillNodeData;
+          cli(buildNodePrompt('skill', data as unknown as Record<string, unknown>, previousResults), data);
+          plan.retry = data.retry;
+          break;
+        }
+        case 'mcp': {
+          const data = node.data as McpNodeData;
+          cli(buildNodePrompt('mcp', data as unknown as Record<string, unknown>, previousResults), data);
+          plan.retry = data.retry;
+          try {
+            const server = buildMcpServerEntry(data);
+            notes.push(`MCP 서버 "${toMcpServerName(data.serverName)}"을(를) 이 노드에만 연결합니다 (${describeMcpServer(server)}).`);
+            if (server.type === 'stdio') {
+              notes.push('실행 전에 서버가 시작되는지 확인합니다.');
+            }
+          } catch (error) {
+            notes.push(`MCP 서버 설정 오류: ${error instanceof Error ? error.message : '잘못된 서버 설정'}`);
+          }
+          break;
+        }
+        case 'condition': {
+          const data = node.data as ConditionNodeData;
+          if (data.ruleType === 'llm') {
+            const input = this.mergePreviousResults(upstream);
+            cli(buildNodePrompt('condition', data as unknown as Record<string, unknown>, input.result), data);
+          } else {
+            notes.push(`claude를 실행하지 않고 ${data.ruleType} 규칙으로 판정합니다.`);
+          }
+          break;
+        }
+        case 'approval':
+          notes.push('실행 중 사용자 승인을 기다립니다.');
+          break;
+        case 'output':
+          plan.outputDirectory = context.outputDir;
+          break;
+      }
+
+      placeholders.set(node.id, {
+        nodeId: node.id,
+        success: true,
+        result: node.type === 'input'
+          ? this.getInputValue(node, context.inputs)
+          : node.type === 'map'
+            ? `[map "${node.data.label}"의 항목 하나]`
+            : `[노드 "${node.data.label}"의 실행 결과]`,
+      });
+
+      return plan;
+    });
+  }
+
+  /**
+   * 재사용 가능한 이전 결과 결정
+   * 이전에 성공했고, 노드 설정이 바뀌지 않았고, 모든 선행 노드도 재사용되는 노드만 해당
+   */
+  private async planResume(
+    executionOrder: ExecutionNode[],
+    context: ExecutionContext,
+    fingerprints: Map<string, string>
+  ): Promise<Map<string, ExecutionResult>> {
+    const reusable = new Map<string, ExecutionResult>();
+    const previous = await this.loadRunState(context.resumeFrom ?? context.outputDir);
+    if (!previous) {
+      return reusable;
+    }
+
+    for (const node of executionOrder) {
+      // map 하위 그래프의 항목별 결과는 저장하지 않으므로 map 단위로 항상 다시 실행
+      if (this.mapScopes.has(node.id)) continue;
+
+      const saved = previous.nodes[node.id];
+      if (!saved || !saved.result.success || saved.fingerprint !== fingerprints.get(node.id)) {
+        continue;
+      }
+
+      const upstreamReused = context.edges
+        .filter((e) => e.target === node.id)
+        .every((e) => reusable.has(e.source));
+
+      if (upstreamReused) {
+        reusable.set(node.id, saved.result);
+      }
+    }
+
+    return reusable;
+  }
+
+  /**
+   * MCP 노드의 서버 설정을 확인하고 stdio 서버는 실제로 띄워 initialize에 응답하는지 확인
+   * @returns 노드 ID → 오류 메시지 (문제가 없으면 빈 Map)
+   */
+  private async checkMcpServers(nodes: ExecutionNode[], onLog?: LogCallback): Promise<Map<string, string>> {
+    const errors = new Map<string, string>();
+
+    await Promise.all(
+      nodes
+        .filter((n) => n.type === 'mcp')
+        .map(async (node) => {
+          const data = node.data as McpNodeData;
+          let server: McpServerEntry;
+          try {
+            server = buildMcpServerEntry(data);
+          } catch (error) {
+            errors.set(node.id, `MCP 노드 "${data.label}": ${error instanceof Error ? error.message : '잘못된 서버 설정'}`);
+            return;
+          }
+          if (server.type !== 'stdio') return;
+
+          onLog?.('info', `MCP 서버 "${data.serverName}" 시작 확인 중 (${describeMcpServer(server)})`);
+          const check = await checkStdioMcpServer(server, this.workingDirectory, this.abortController.signal);
+          if (check.ok) {
+            const info = check.serverInfo?.name ? ` - ${check.serverInfo.name} ${check.serverInfo.version ?? ''}`.trimEnd() : '';
+            onLog?.('info', `MCP 서버 "${data.serverName}" 응답 확인${info}`);
+          } else {
+            errors.set(node.id, `MCP 서버 "${data.serverName}"을(를) 시작할 수 없습니다: ${check.error}`);
+          }
+        })
+    );
+
+    return errors;
+  }
+
+  /**
+   * 노드 설정 + 입력값 + 연결 정보로 변경 감지용 해시 생성
+   */
+  private computeFingerprints(
+    executionOrder: ExecutionNode[],
+    context: ExecutionContext
+  ): Map<string, string> {
+    const fingerprints = new Map<string, string>();
+
+    for (const node of executionOrder) {
+      const data = Object.fromEntries(
+        Object.entries(node.data)
+          .filter(([key]) => !RUNTIME_FIELDS.has(key))
+          .sort(([a], [b]) => a.localeCompare(b))
+      );
+      const sources = context.edges
+        .filter((e) => e.target === node.id)
+        .map((e) => e.source)
+        .sort();
+
+      const hash = createHash('sha1')
+        .update(JSON.stringify({ type: node.type, data, sources, input: context.inputs?.[node.id] ?? null }))
+        .digest('hex');
+      fingerprints.set(node.id, hash);
+    }
+
+    return fingerprints;
+  }
+
+  private async loadRunState(outputDir: string): Promise<RunState | null> {
+    const statePath = join(outputDir, RUN_STATE_FILE);
+    if (!existsSync(statePath)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(await readFile(statePath, 'utf-8')) as RunState;
+    } catch (error) {
+      console.error('Failed to read run state:', error);
+      return null;
+    }
+  }
+
+  private async saveRunState(
+    context: ExecutionContext,
+    fingerprints: Map<string, string>,
+    onLog?: LogCallback
+  ): Promise<void> {
+    const state: RunState = {
+      workflowId: context.workflowId,
+      savedAt: new Date().toISOString(),
+      nodes: {},
+    };
+
+    for (const [nodeId, result] of this.results) {
+      const fingerprint = fingerprints.get(nodeId);
+      if (fingerprint) {
+        state.nodes[nodeId] = { fingerprint, result };
+      }
+    }
 
-    onLog?.('info', `워크플로우 "${context.workflowName}" 실행 시작 (${executionOrder.length}개 노드)`);
+    try {
+      await writeFile(join(context.outputDir, RUN_STATE_FILE), JSON.stringify(state, null, 2), 'utf-8');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      onLog?.('warn', `실행 상태 저장 실패: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * 실행 취소 - 새 노드 시작을 멈추고 실행 중인 claude 프로세스를 종료
+   * 실행 시작 전(실행 준비 중)에 요청하면 시작하자마자 취소
+   * @returns 취소할 실행이 있었으면 true
+   */
+  cancel(): boolean {
+    if (this.isFinished || this.abortController.signal.aborted) {
+      return false;
+    }
+    this.abortController.abort();
+    return true;
+  }
 
+  /**
+   * 대기 중인 승인 요청에 응답
+   * @returns 해당 승인 요청이 있었으면 true
+   */
+  respondApproval(response: ApprovalResponse): boolean {
+    const resolve = this.pendingApprovals.get(response.approvalId);
+    if (!resolve) {
+      return false;
+    }
+    this.pendingApprovals.delete(response.approvalId);
+    resolve(response);
+    return true;
+  }
+
+  get isCancelled(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  /**
+   * 시작되지 못한 노드를 cancelled로 표시
+   */
+  private markCancelled(executionOrder: ExecutionNode[], onProgress?: ProgressCallback): void {
     for (const node of executionOrder) {
-      try {
-        onProgress?.({ nodeId: node.id, status: 'running', progress: 0 });
-        onLog?.('info', `노드 "${node.data.label}" 실행 중...`);
+      if (this.results.has(node.id)) continue;
+      this.results.set(node.id, { nodeId: node.id, success: false, error: '실행 취소됨', cancelled: true });
+      onProgress?.({ nodeId: node.id, status: 'cancelled' });
+    }
+  }
+
+  /**
+   * 의존성 기반 스케줄러 - 선행 노드가 모두 끝난 노드부터 동시 실행
+   * executionOrder는 위상 정렬된 순서이므로 준비된 노드 간에는 그 순서를 유지한다.
+   * 들어오는 엣지가 하나도 활성화되지 않은 노드(선택되지 않은 조건 분기)는 실행하지 않고 skipped로 표시한다.
+   * map 하위 그래프는 map 노드가 항목마다 실행하므로 map 노드 하나로 묶어서 스케줄한다.
+   */
+  private async schedule(
+    executionOrder: ExecutionNode[],
+    context: ExecutionContext,
+    maxConcurrency: number,
+    onProgress?: ProgressCallback,
+    onLog?: LogCallback
+  ): Promise<void> {
+    const contract = (id: string) => this.mapScopes.get(id) ?? id;
+    const topLevel = executionOrder.filter((node) => contract(node.id) === node.id);
+    const remaining = new Map<string, number>();
+    const activeIncoming = new Map<string, number>();
+    const successors = new Map<string, WorkflowEdge[]>();
+
+    topLevel.forEach((node) => {
+      remaining.set(node.id, 0);
+      activeIncoming.set(node.id, 0);
+      successors.set(node.id, []);
+    });
 
-        const result = await this.executeNode(node, context, onProgress, onLog);
-        this.results.set(node.id, result);
+    context.edges.forEach((edge) => {
+      const source = contract(edge.source);
+      const target = contract(edge.target);
+      if (source === target || !remaining.has(source) || !remaining.has(target)) return;
+      successors.get(source)!.push({ ...edge, source, target });
+      remaining.set(target, remaining.get(target)! + 1);
+    });
+
+    const nodeMap = new Map(topLevel.map((n) => [n.id, n]));
+    const ready = topLevel.filter((node) => remaining.get(node.id) === 0);
+    const inFlight = new Map<string, Promise<string>>();
+
+    // 끝난(또는 건너뛴) 노드의 후속 노드 의존성 해제
+    const release = (finishedId: string) => {
+      for (const edge of successors.get(finishedId) || []) {
+        if (this.isEdgeActive(edge)) {
+          activeIncoming.set(edge.target, activeIncoming.get(edge.target)! + 1);
+        }
 
-        if (result.success) {
-          onProgress?.({ nodeId: node.id, status: 'completed', progress: 100, result: result.result });
-          onLog?.('info', `노드 "${node.data.label}" 완료`);
+        const count = remaining.get(edge.target)! - 1;
+        remaining.set(edge.target, count);
+        if (count > 0) continue;
+
+        if (activeIncoming.get(edge.target)! > 0) {
+          ready.push(nodeMap.get(edge.target)!);
         } else {
-          onProgress?.({ nodeId: node.id, status: 'error', error: result.error });
-          onLog?.('error', `노드 "${node.data.label}" 실패: ${result.error}`);
+          this.skipNode(nodeMap.get(edge.target)!, onProgress, onLog);
+          release(edge.target);
         }
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        this.results.set(node.id, { nodeId: node.id, success: false, error: errorMessage });
-        onProgress?.({ nodeId: node.id, status: 'error', error: errorMessage });
-        onLog?.('error', `노드 "${node.data.label}" 실행 오류: ${errorMessage}`);
       }
+    };
+
+    while (ready.length > 0 || inFlight.size > 0) {
+      // 취소되면 새 노드는 시작하지 않고 실행 중인 노드가 끝나기만 기다림
+      if (this.isCancelled) {
+        ready.length = 0;
+        if (inFlight.size === 0) break;
+      }
+
+      while (ready.length > 0 && inFlight.size < maxConcurrency) {
+        const node = ready.shift()!;
+        inFlight.set(
+          node.id,
+          this.runNode(node, context, onProgress, onLog).then(() => node.id)
+        );
+      }
+
+      const finishedId = await Promise.race(inFlight.values());
+      inFlight.delete(finishedId);
+      release(finishedId);
     }
+  }
 
-    return this.results;
+  /**
+   * 엣지 활성 여부 - 건너뛴 노드의 엣지는 비활성, 조건 노드는 선택된 핸들의 엣지만 활성
+   * 판정에 실패한 조건 노드는 어느 분기도 선택하지 않았으므로 모든 엣지가 비활성
+   */
+  private isEdgeActive(edge: WorkflowEdge, item?: number): boolean {
+    const source = this.results.get(this.resultKey(edge.source, item));
+    if (!source || source.skipped || source.rejected) {
+      return false;
+    }
+    if (source.branch === undefined) {
+      return !this.conditionNodeIds.has(edge.source);
+    }
+    // 핸들 없이 연결된 엣지는 캔버스에서 첫 번째 핸들(true)에 붙어 표시됨
+    return (edge.sourceHandle || 'true') === source.branch;
+  }
+
+  private skipNode(node: ExecutionNode, onProgress?: ProgressCallback, onLog?: LogCallback): void {
+    const nodes = [node, ...(this.mapPlans.get(node.id)?.body || [])];
+    for (const skipped of nodes) {
+      this.results.set(skipped.id, { nodeId: skipped.id, success: false, skipped: true });
+      onProgress?.({ nodeId: skipped.id, status: 'skipped' });
+    }
+    onLog?.('info', `노드 "${node.data.label}" 건너뜀 (선택되지 않은 분기)`);
+  }
+
+  /**
+   * 결과 키 - map 하위 그래프 안에서 실행된 결과는 항목별로 구분
+   */
+  private resultKey(nodeId: string, item?: number): string {
+    return item !== undefined && this.mapScopes.has(nodeId) ? `${nodeId}#${item}` : nodeId;
+  }
+
+  /**
+   * 노드 응답과 변경 파일을 모을 디렉토리 - 노드(map 항목)마다 따로 두어 서로 덮어쓰지 않음
+   */
+  private nodeOutputDir(nodeId: string, item?: number): string {
+    return join(this.outputDir, 'nodes', this.resultKey(nodeId, item).replace(/[^\w-]/g, '_'));
+  }
+
+  /**
+   * map 노드별 하위 그래프 결정
+   * map의 후손 중 처음 나오는 reduce 노드의 조상들이 하위 그래프, reduce가 없으면 모든 후손.
+   * 중첩된 map은 지원하지 않는다 (안쪽 map은 실행 시 오류).
+   */
+  private planMaps(
+    executionOrder: ExecutionNode[],
+    edges: WorkflowEdge[]
+  ): { plans: Map<string, MapPlan>; scopes: Map<string, string> } {
+    const plans = new Map<string, MapPlan>();
+    const scopes = new Map<string, string>();
+
+    const children = new Map<string, string[]>();
+    const parents = new Map<string, string[]>();
+    edges.forEach((edge) => {
+      children.set(edge.source, [...(children.get(edge.source) || []), edge.target]);
+      parents.set(edge.target, [...(parents.get(edge.target) || []), edge.source]);
+    });
+
+    const reachable = (startId: string, adjacency: Map<string, string[]>) => {
+      const visited = new Set<string>();
+      const queue = [...(adjacency.get(startId) || [])];
+      while (queue.length > 0) {
+        const id = queue.shift()!;
+        if (visited.has(id)) continue;
+        visited.add(id);
+        queue.push(...(adjacency.get(id) || []));
+      }
+      return visited;
+    };
+
+    for (const node of executionOrder) {
+      if (node.type !== 'map' || scopes.has(node.id)) continue;
+
+      const descendants = reachable(node.id, children);
+      const reduce = executionOrder.find((n) => n.type === 'reduce' && descendants.has(n.id));
+      const ancestors = reduce ? reachable(reduce.id, parents) : descendants;
+      const body = executionOrder.filter(
+        (n) => descendants.has(n.id) && ancestors.has(n.id) && !scopes.has(n.id)
+      );
+
+      plans.set(node.id, { body, reduceId: reduce?.id });
+      scopes.set(node.id, node.id);
+      body.forEach((n) => scopes.set(n.id, node.id));
+    }
+
+    return { plans, scopes };
+  }
+
+  /**
+   * 노드 하나를 실행하고 결과를 기록 (예외를 밖으로 던지지 않음)
+   */
+  private async runNode(
+    node: ExecutionNode,
+    context: ExecutionContext,
+    onProgress?: ProgressCallback,
+    onLog?: LogCallback,
+    item?: number
+  ): Promise<void> {
+    const reused = this.reusable.get(node.id);
+    if (reused) {
+      // 사용량은 이전 실행에서 이미 집계됨
+      this.results.set(node.id, { ...reused, usage: undefined });
+      onProgress?.(this.completedUpdate(node, reused));
+      onLog?.('info', `노드 "${node.data.label}" 이전 결과 재사용${reused.rejected ? ' (거부됨)' : ''}`);
+      return;
+    }
+
+    const key = this.resultKey(node.id, item);
+    const label = item === undefined ? node.data.label : `${node.data.label} [${item + 1}]`;
+
+    try {
+      onProgress?.({ nodeId: node.id, status: 'running', progress: 0 });
+      onLog?.('info', `노드 "${label}" 실행 중...`);
+
+      const result = await this.executeNodeWithRetry(node, context, onProgress, onLog, item);
+      this.results.set(key, item === undefined ? result : { ...result, item });
+
+      if (result.success) {
+        onProgress?.(this.completedUpdate(node, result));
+        onLog?.('info', `노드 "${label}" 완료`);
+      } else if (result.cancelled) {
+        onProgress?.({ nodeId: node.id, status: 'cancelled', error: result.error });
+        onLog?.('warn', `노드 "${label}" 취소됨`);
+      } else if (result.errorKind === 'timeout') {
+        onProgress?.({ nodeId: node.id, status: 'error', error: result.error, errorKind: 'timeout' });
+        onLog?.('error', `노드 "${label}" 시간 초과: ${result.error}`);
+      } else {
+        onProgress?.({ nodeId: node.id, status: 'error', error: result.error, errorKind: result.errorKind });
+        onLog?.('error', `노드 "${label}" 실패: ${result.error}`);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.results.set(key, { nodeId: node.id, success: false, error: errorMessage, item });
+      onProgress?.({ nodeId: node.id, status: 'error', error: errorMessage });
+      onLog?.('error', `노드 "${label}" 실행 오류: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * 완료된 노드의 진행 상황 - 조건 노드는 선택한 분기, 승인 노드는 거부 여부 포함
+   */
+  private completedUpdate(node: ExecutionNode, result: ExecutionResult): NodeExecutionUpdate {
+    return {
+      nodeId: node.id,
+      status: 'completed',
+      progress: 100,
+      result: result.result,
+      branch: result.branch,
+      ...(node.type === 'approval' ? { rejected: !!result.rejected } : {}),
+    };
+  }
+
+  /**
+   * 노드별 재시도 정책을 적용해 실행
+   * 시도마다 onLog로 기록하고 attempt/maxAttempts를 진행 상황에 포함해 캔버스에 표시
+   */
+  private async executeNodeWithRetry(
+    node: ExecutionNode,
+    context: ExecutionContext,
+    onProgress?: ProgressCallback,
+    onLog?: LogCallback,
+    item?: number
+  ): Promise<ExecutionResult> {
+    const policy = (node.data as { retry?: RetryPolicy }).retry;
+    const maxAttempts = Math.max(1, Math.floor(policy?.maxAttempts ?? 1));
+
+    if (!policy || maxAttempts === 1) {
+      return this.executeNode(node, context, onProgress, onLog, item);
+    }
+
+    // 실패한 시도도 토큰을 소모하므로 사용량은 모든 시도를 합산
+    const attemptUsage: Array<UsageStats | undefined> = [];
+
+    for (let attempt = 1; ; attempt++) {
+      onProgress?.({ nodeId: node.id, status: 'running', progress: 0, attempt, maxAttempts });
+      onLog?.('info', `노드 "${node.data.label}" 시도 ${attempt}/${maxAttempts}`);
+
+      const result = await this.executeNode(node, context, onProgress, onLog, item);
+      attemptUsage.push(result.usage);
+
+      if (result.success || result.cancelled || attempt >= maxAttempts || !this.shouldRetry(result, policy)) {
+        return { ...result, attempts: attempt, usage: sumUsage(attemptUsage) };
+      }
+
+      const delayMs = Math.max(0, policy.backoffMs || 0) * 2 ** (attempt - 1);
+      onLog?.(
+        'warn',
+        `노드 "${node.data.label}" 시도 ${attempt}/${maxAttempts} 실패 (${result.error?.trim()}), ${delayMs}ms 후 재시도`
+      );
+
+      await this.wait(delayMs);
+      if (this.isCancelled) {
+        return {
+          nodeId: node.id,
+          success: false,
+          error: '실행 취소됨',
+          cancelled: true,
+          attempts: attempt,
+          usage: sumUsage(attemptUsage),
+        };
+      }
+    }
+  }
+
+  private shouldRetry(result: ExecutionResult, policy: RetryPolicy): boolean {
+    if (result.errorKind === 'config') {
+      return false;
+    }
+    if (!policy.retryOn || policy.retryOn.length === 0) {
+      return true;
+    }
+    return !!result.errorKind && policy.retryOn.includes(result.errorKind);
+  }
+
+  /**
+   * 취소되면 바로 끝나는 대기
+   */
+  private wait(ms: number): Promise<void> {
+    const signal = this.abortController.signal;
+    return new Promise((resolve) => {
+      if (signal?.aborted) {
+        resolve();
+        return;
+      }
+      const timer = setTimeout(done, ms);
+      function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      }
+      signal?.addEventListener('abort', done, { once: true });
+    });
+  }
+
+  /**
+   * 노드 타임아웃 - 노드 설정 > 워크플로우 기본값 순
+   */
+  private getTimeoutMs(data: { timeoutMs?: number }): number {
+    return data.timeoutMs && data.timeoutMs > 0 ? data.timeoutMs : this.defaultTimeoutMs;
+  }
+
+  /**
+   * 노드 프롬프트 실행 - 노드 설정 > 워크플로우 기본값 순으로 백엔드 선택
+   * 다른 노드의 결과 파일이 이 노드의 변경으로 잡히지 않도록 실행 output 디렉토리 전체를 추적에서 제외
+   */
+  private runPrompt(
+    data: { backend?: ExecutionBackendId; model?: SubagentNodeData['model'] },
+    options: ClaudeCliOptions
+  ): Promise<ClaudeCliResult> {
+    return this.getBackend(data).execute({ ...options, model: data.model, excludeFromTracking: [this.outputDir] });
+  }
+
+  private getBackend(data: { backend?: ExecutionBackendId }): ExecutionBackend {
+    return this.backends[data.backend || this.defaultBackend] ?? this.backends.cli;
+  }
+
+  /**
+   * 실행 로그에 표시할 백엔드 이름
+   */
+  private describeBackend(data: { backend?: ExecutionBackendId }): string {
+    return BACKEND_LABELS[this.getBackend(data).id];
+  }
+
+  /**
+   * CLI 실패 메시지 - 타임아웃은 일반 실패와 구분되는 메시지로 보고
+   */
+  private describeCliFailure(result: ClaudeCliResult, timeoutMs: number, fallback: string): string {
+    if (result.timedOut) {
+      return `시간 초과 (${Math.round(timeoutMs / 1000)}초 제한)`;
+    }
+    return result.stderr || fallback;
+  }
+
+  /**
+   * CLI 응답 텍스트를 node:output 이벤트로 전달하는 콜백
+   */
+  private streamOutput(nodeId: string): ((text: string) => void) | undefined {
+    const onOutput = this.onOutput;
+    return onOutput ? (text) => onOutput({ nodeId, text }) : undefined;
+  }
+
+  /**
+   * 에이전트 출력 스키마 검증 - 출력에서 JSON을 찾아 검증하고 통과하면 data로 전달
+   * 실패는 재시도 조건 'schema'로 분류, 스키마 자체가 잘못된 경우는 재시도하지 않도록 'config'로 분류
+   */
+  private applyOutputSchema(result: ExecutionResult, outputSchema?: string): ExecutionResult {
+    if (!outputSchema?.trim()) {
+      return result;
+    }
+
+    let schema: JsonSchema;
+    try {
+      schema = JSON.parse(outputSchema) as JsonSchema;
+    } catch {
+      return { ...result, success: false, error: '출력 스키마가 올바른 JSON이 아닙니다.', errorKind: 'config' };
+    }
+
+    let value: unknown;
+    try {
+      value = parseJsonFromText(result.result || '');
+    } catch {
+      return { ...result, success: false, error: '출력에서 JSON을 찾을 수 없습니다.', errorKind: 'schema' };
+    }
+
+    const errors = validateJsonSchema(value, schema);
+    if (errors.length > 0) {
+      return {
+        ...result,
+        success: false,
+        error: `출력 스키마 검증 실패: ${errors.slice(0, 3).join('; ')}`,
+        errorKind: 'schema',
+      };
+    }
+
+    return { ...result, data: value };
+  }
+
+  /**
+   * CLI 실패 원인 분류 (재시도 조건 판단용)
+   */
+  private getErrorKind(result: ClaudeCliResult): RetryCondition {
+    if (result.timedOut) return 'timeout';
+    if (result.exitCode === null) return 'spawn';
+    return 'exit';
   }
 
   /**
@@ -103,23 +942,52 @@ export class WorkflowExecutionService {
     node: ExecutionNode,
     context: ExecutionContext,
     onProgress?: ProgressCallback,
-    onLog?: LogCallback
+    onLog?: LogCallback,
+    item?: number
   ): Promise<ExecutionResult> {
-    // 이전 노드 결과 수집
-    const previousResults = this.collectPreviousResults(node, context.edges);
+    // 이전 노드 결과 수집 - 프롬프트에는 출처 노드별로 구분해 전달
+    const upstream = this.collectPreviousResults(node, context, item);
+    const previousResults = this.formatPreviousResults(upstream);
 
     switch (node.type) {
       case 'input':
         return this.executeInputNode(node, context.inputs);
 
       case 'agent':
-        return this.executeSubagentNode(node, previousResults, onProgress, onLog);
+        return this.executeSubagentNode(
+          this.resolveNodeTemplates(node, ['systemPrompt', 'description'], context, item, onLog),
+          previousResults,
+          onProgress,
+          onLog,
+          item
+        );
 
       case 'skill':
-        return this.executeSkillNode(node, previousResults, onProgress, onLog);
+        return this.executeSkillNode(
+          this.resolveNodeTemplates(node, ['description', 'skillArgs'], context, item, onLog),
+          previousResults,
+          onProgress,
+          onLog,
+          item
+        );
 
       case 'mcp':
-        return this.executeMcpNode(node, previousResults, onProgress, onLog);
+        return this.executeMcpNode(node, previousResults, onProgress, onLog, item);
+
+      case 'condition':
+        return this.executeConditionNode(node, upstream, onLog, item);
+
+      case 'approval':
+        return this.executeApprovalNode(node, upstream, context, onProgress, onLog);
+
+      case 'map':
+      case 'reduce':
+        if (item !== undefined) {
+          return { nodeId: node.id, success: false, error: '중첩된 map/reduce 노드는 지원하지 않습니다.' };
+        }
+        return node.type === 'map'
+          ? this.executeMapNode(node, upstream, context, onProgress, onLog)
+          : this.executeReduceNode(node, context);
 
       case 'output':
         return this.executeOutputNode(node, previousResults, onLog);
@@ -136,17 +1004,72 @@ export class WorkflowExecutionService {
     node: ExecutionNode,
     inputs?: Record<string, string>
   ): Promise<ExecutionResult> {
-    const data = node.data as InputNodeData;
-    // inputs에서 먼저 찾고, 없으면 node data의 value, defaultValue, placeholder 순으로 fallback
-    const value = inputs?.[node.id] || data.value || data.defaultValue || data.placeholder || '';
-
     return {
       nodeId: node.id,
       success: true,
-      result: value,
+      result: this.getInputValue(node, inputs),
     };
   }
 
+  private getInputValue(node: ExecutionNode, inputs?: Record<string, string>): string {
+    const data = node.data as InputNodeData;
+    // inputs에서 먼저 찾고, 없으면 node data의 value, defaultValue, placeholder 순으로 fallback
+    return inputs?.[node.id] || data.value || data.defaultValue || data.placeholder || '';
+  }
+
+  /**
+   * 프롬프트 필드의 {{...}} 템플릿 변수를 실행 시점 값으로 치환한 노드 사본 반환
+   * map 하위 그래프 안에서는 같은 항목의 결과를 우선 사용한다.
+   */
+  private resolveNodeTemplates(
+    node: ExecutionNode,
+    fields: string[],
+    context: ExecutionContext,
+    item: number | undefined,
+    onLog?: LogCallback,
+    results: Map<string, ExecutionResult> = this.results
+  ): ExecutionNode {
+    const templateContext: TemplateContext = {
+      inputs: context.nodes
+        .filter((n) => n.type === 'input')
+        .map((n) => ({ id: n.id, label: n.data.label, value: this.getInputValue(n, context.inputs) })),
+      nodes: context.nodes.map((n) => {
+        const result =
+          (item !== undefined ? results.get(this.resultKey(n.id, item)) : undefined) ?? results.get(n.id);
+        return {
+          id: n.id,
+          label: n.data.label,
+          result: result?.result,
+          data: result?.data,
+          executed: !!result,
+        };
+      }),
+      run: {
+        workflowId: context.workflowId,
+        workflowName: context.workflowName,
+        outputDir: context.outputDir,
+        projectRoot: context.workingDirectory || this.projectRoot,
+      },
+    };
+
+    const data: Record<string, unknown> = { ...node.data };
+    for (const field of fields) {
+      const value = data[field];
+      if (typeof value !== 'string' || !value.includes('{{')) continue;
+
+      const { text, unknown, pending } = resolveTemplate(value, templateContext);
+      data[field] = text;
+      if (unknown.length > 0) {
+        onLog?.('warn', `노드 "${node.data.label}": 알 수 없는 템플릿 변수 ${unknown.map((v) => `{{${v}}}`).join(', ')}`);
+      }
+      if (pending.length > 0) {
+        onLog?.('warn', `노드 "${node.data.label}": 아직 실행되지 않은 노드를 참조해 빈 값으로 치환 ${pending.map((v) => `{{${v}}}`).join(', ')}`);
+      }
+    }
+
+    return { ...node, data: data as ExecutionNode['data'] };
+  }
+
   /**
    * Subagent 노드 실행 - Claude CLI로 작업 수행
    */
@@ -154,40 +1077,57 @@ export class WorkflowExecutionService {
     node: ExecutionNode,
     previousResults: string,
     onProgress?: ProgressCallback,
-    onLog?: LogCallback
+    onLog?: LogCallback,
+    item?: number
   ): Promise<ExecutionResult> {
     const data = node.data as SubagentNodeData;
 
     onProgress?.({ nodeId: node.id, status: 'running', progress: 20 });
-    onLog?.('info', `claude -c 실행 중: ${data.label} (${data.role})`);
+    onLog?.('info', `${this.describeBackend(data)} 실행 중: ${data.label} (${[data.role, data.model].filter(Boolean).join(', ')})`);
 
     // 프롬프트 생성
     const prompt = buildNodePrompt('agent', data as unknown as Record<string, unknown>, previousResults);
+    const timeoutMs = this.getTimeoutMs(data);
 
     try {
       onProgress?.({ nodeId: node.id, status: 'running', progress: 40 });
 
-      const result = await executeClaudeCli({
+      // 캔버스의 도구, 시스템 프롬프트, 권한 모드 설정을 그대로 실행 옵션으로 전달 (모델은 runPrompt)
+      const result = await this.runPrompt(data, {
         prompt,
-        workingDirectory: this.projectRoot,
-        outputDirectory: this.outputDir,
-        timeoutMs: 300000, // 5분
+        workingDirectory: this.workingDirectory,
+        outputDirectory: this.nodeOutputDir(node.id, item),
+        timeoutMs,
+        signal: this.abortController.signal,
+        onOutput: this.streamOutput(node.id),
+        allowedTools: data.tools,
+        appendSystemPrompt: data.systemPrompt?.trim() || undefined,
+        permissionMode: data.permissionMode,
       });
 
       onProgress?.({ nodeId: node.id, status: 'running', progress: 100 });
 
       if (result.success) {
-        return {
-          nodeId: node.id,
-          success: true,
-          result: result.stdout,
-          files: result.generatedFiles,
-        };
+        return this.applyOutputSchema(
+          {
+            nodeId: node.id,
+            success: true,
+            result: result.stdout,
+            files: result.generatedFiles,
+            toolCalls: result.toolCalls,
+            usage: result.usage,
+          },
+          data.outputSchema
+        );
       } else {
         return {
           nodeId: node.id,
           success: false,
-          error: result.stderr || 'Claude CLI 실행 실패',
+          error: this.describeCliFailure(result, timeoutMs, 'Claude CLI 실행 실패'),
+          errorKind: this.getErrorKind(result),
+          cancelled: result.cancelled,
+          toolCalls: result.toolCalls,
+          usage: result.usage,
         };
       }
     } catch (error) {
@@ -208,23 +1148,27 @@ export class WorkflowExecutionService {
     node: ExecutionNode,
     previousResults: string,
     onProgress?: ProgressCallback,
-    onLog?: LogCallback
+    onLog?: LogCallback,
+    item?: number
   ): Promise<ExecutionResult> {
     const data = node.data as SkillNodeData;
     const skillId = data.skillId || 'generic';
 
     onProgress?.({ nodeId: node.id, status: 'running', progress: 10 });
-    onLog?.('info', `claude -c 실행 중: /${skillId}`);
+    onLog?.('info', `${this.describeBackend(data)} 실행 중: /${skillId}`);
 
     // 프롬프트 생성 - 스킬 호출 형태
     const prompt = buildNodePrompt('skill', data as unknown as Record<string, unknown>, previousResults);
+    const timeoutMs = this.getTimeoutMs(data);
 
     try {
-      const result = await executeClaudeCli({
+      const result = await this.runPrompt(data, {
         prompt,
-        workingDirectory: this.projectRoot,
-        outputDirectory: this.outputDir,
-        timeoutMs: 300000,
+        workingDirectory: this.workingDirectory,
+        outputDirectory: this.nodeOutputDir(node.id, item),
+        timeoutMs,
+        signal: this.abortController.signal,
+        onOutput: this.streamOutput(node.id),
       });
 
       onProgress?.({ nodeId: node.id, status: 'running', progress: 100 });
@@ -235,12 +1179,18 @@ export class WorkflowExecutionService {
           success: true,
           result: result.stdout,
           files: result.generatedFiles,
+          toolCalls: result.toolCalls,
+          usage: result.usage,
         };
       } else {
         return {
           nodeId: node.id,
           success: false,
-          error: result.stderr || '스킬 실행 실패',
+          error: this.describeCliFailure(result, timeoutMs, '스킬 실행 실패'),
+          errorKind: this.getErrorKind(result),
+          cancelled: result.cancelled,
+          toolCalls: result.toolCalls,
+          usage: result.usage,
         };
       }
     } catch (error) {
@@ -261,33 +1211,53 @@ export class WorkflowExecutionService {
     node: ExecutionNode,
     previousResults: string,
     onProgress?: ProgressCallback,
-    onLog?: LogCallback
+    onLog?: LogCallback,
+    item?: number
   ): Promise<ExecutionResult> {
     const data = node.data as McpNodeData;
 
-    onProgress?.({ nodeId: node.id, status: 'running', progress: 10 });
-    onLog?.('info', `claude -c 실행 중: MCP 서버 "${data.serverName}"`);
-
-    const prompt = `MCP 서버를 사용하여 작업을 수행해주세요.
+    // Messages API는 도구를 쓸 수 없으므로 MCP 서버를 연결할 방법이 없음
+    if (this.getBackend(data).id === 'api') {
+      return {
+        nodeId: node.id,
+        success: false,
+        error: 'Messages API 백엔드에서는 MCP 서버를 사용할 수 없습니다. cli 또는 sdk 백엔드를 선택하세요.',
+        errorKind: 'config',
+      };
+    }
 
-## MCP 서버 정보
-- 서버 이름: ${data.serverName}
-- 서버 타입: ${data.serverType}
+    let server: McpServerEntry;
+    try {
+      server = buildMcpServerEntry(data);
+    } catch (error) {
+      return {
+        nodeId: node.id,
+        success: false,
+        error: error instanceof Error ? error.message : '잘못된 MCP 서버 설정',
+        errorKind: 'config',
+      };
+    }
+    const serverName = toMcpServerName(data.serverName);
 
-## 이전 단계 결과
-${previousResults || '(없음)'}
+    onProgress?.({ nodeId: node.id, status: 'running', progress: 10 });
+    onLog?.('info', `${this.describeBackend(data)} 실행 중: MCP 서버 "${data.serverName}" (${describeMcpServer(server)})`);
 
-## 작업
-위 MCP 서버를 사용하여 이전 단계의 결과를 처리하세요.`;
+    const prompt = buildNodePrompt('mcp', data as unknown as Record<string, unknown>, previousResults);
+    const timeoutMs = this.getTimeoutMs(data);
 
     try {
       onProgress?.({ nodeId: node.id, status: 'running', progress: 50 });
 
-      const result = await executeClaudeCli({
+      // 노드 설정으로 만든 임시 MCP 설정을 이 실행에만 연결하고, 서버의 도구는 확인 없이 사용하도록 허용
+      const result = await this.runPrompt(data, {
         prompt,
-        workingDirectory: this.projectRoot,
-        outputDirectory: this.outputDir,
-        timeoutMs: 300000,
+        workingDirectory: this.workingDirectory,
+        outputDirectory: this.nodeOutputDir(node.id, item),
+        timeoutMs,
+        signal: this.abortController.signal,
+        onOutput: this.streamOutput(node.id),
+        mcpServers: { [serverName]: server },
+        allowedTools: [`mcp__${serverName}`],
       });
 
       onProgress?.({ nodeId: node.id, status: 'running', progress: 100 });
@@ -298,12 +1268,18 @@ ${previousResults || '(없음)'}
           success: true,
           result: result.stdout,
           files: result.generatedFiles,
+          toolCalls: result.toolCalls,
+          usage: result.usage,
         };
       } else {
         return {
           nodeId: node.id,
           success: false,
-          error: result.stderr || 'MCP 노드 실행 실패',
+          error: this.describeCliFailure(result, timeoutMs, 'MCP 노드 실행 실패'),
+          errorKind: this.getErrorKind(result),
+          cancelled: result.cancelled,
+          toolCalls: result.toolCalls,
+          usage: result.usage,
         };
       }
     } catch (error) {
@@ -315,6 +1291,342 @@ ${previousResults || '(없음)'}
     }
   }
 
+  /**
+   * Condition 노드 실행 - 이전 결과를 규칙으로 판정해 true/false 분기 선택
+   * 결과 텍스트는 그대로 다음 노드로 전달
+   */
+  private async executeConditionNode(
+    node: ExecutionNode,
+    upstream: UpstreamResult[],
+    onLog?: LogCallback,
+    item?: number
+  ): Promise<ExecutionResult> {
+    const data = node.data as ConditionNodeData;
+    const input = this.mergePreviousResults(upstream);
+
+    if (data.ruleType === 'llm') {
+      return this.executeLlmCondition(node, data, input, onLog, item);
+    }
+
+    try {
+      const matched = evaluateCondition(data, input.result, input.data);
+      onLog?.('info', `조건 "${data.label}" 판정: ${matched}`);
+      return { nodeId: node.id, success: true, ...input, branch: String(matched) };
+    } catch (error) {
+      return {
+        nodeId: node.id,
+        success: false,
+        error: error instanceof Error ? error.message : '조건 판정 실패',
+      };
+    }
+  }
+
+  /**
+   * LLM 예/아니오 판정 - Claude CLI에 질문하고 첫 단어로 분기 결정
+   */
+  private async executeLlmCondition(
+    node: ExecutionNode,
+    data: ConditionNodeData,
+    input: { result: string; data?: unknown },
+    onLog?: LogCallback,
+    item?: number
+  ): Promise<ExecutionResult> {
+    const prompt = buildNodePrompt('condition', data as unknown as Record<string, unknown>, input.result);
+    const timeoutMs = this.getTimeoutMs(data);
+
+    const result = await this.runPrompt(data, {
+      prompt,
+      workingDirectory: this.workingDirectory,
+      outputDirectory: this.nodeOutputDir(node.id, item),
+      timeoutMs,
+      signal: this.abortController.signal,
+    });
+
+    if (!result.success) {
+      return {
+        nodeId: node.id,
+        success: false,
+        error: this.describeCliFailure(result, timeoutMs, 'LLM 조건 판정 실패'),
+        errorKind: this.getErrorKind(result),
+        cancelled: result.cancelled,
+        usage: result.usage,
+      };
+    }
+
+    const matched = parseYesNo(result.stdout);
+    if (matched === null) {
+      return {
+        nodeId: node.id,
+        success: false,
+        error: `LLM 응답을 YES/NO로 해석할 수 없습니다: ${result.stdout.trim().slice(0, 100)}`,
+        usage: result.usage,
+      };
+    }
+
+    onLog?.('info', `조건 "${data.label}" LLM 판정: ${matched}`);
+    return { nodeId: node.id, success: true, ...input, branch: String(matched), usage: result.usage };
+  }
+
+  /**
+   * Approval 노드 실행 - approval:requested를 보내고 응답이 올 때까지 대기
+   * 승인하면 이전 결과(수정 시 수정된 텍스트)를 전달하고, 거부하면 이후 분기는 실행하지 않음
+   */
+  private async executeApprovalNode(
+    node: ExecutionNode,
+    upstream: UpstreamResult[],
+    context: ExecutionContext,
+    onProgress?: ProgressCallback,
+    onLog?: LogCallback
+  ): Promise<ExecutionResult> {
+    const data = node.data as ApprovalNodeData;
+    const input = this.mergePreviousResults(upstream);
+
+    if (!this.onApproval) {
+      return { nodeId: node.id, success: false, error: '승인 요청을 보낼 수 있는 클라이언트가 없습니다.' };
+    }
+
+    const approvalId = randomUUID();
+    const response = await new Promise<ApprovalResponse | null>((resolve) => {
+      const signal = this.abortController.signal;
+      const onAbort = () => {
+        this.pendingApprovals.delete(approvalId);
+        resolve(null);
+      };
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pendingApprovals.set(approvalId, (value) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(value);
+      });
+
+      onProgress?.({ nodeId: node.id, status: 'waiting' });
+      onLog?.('info', `노드 "${data.label}" 승인 대기 중...`);
+      this.onApproval!({
+        approvalId,
+        workflowId: context.workflowId,
+        nodeId: node.id,
+        label: data.label,
+        content: input.result,
+        instructions: data.instructions,
+      });
+    });
+
+    if (!response) {
+      return { nodeId: node.id, success: false, error: '실행 취소됨', cancelled: true };
+    }
+
+    switch (response.action) {
+      case 'reject':
+        onLog?.('warn', `노드 "${data.label}" 거부됨 - 이후 단계를 건너뜁니다.`);
+        return { nodeId: node.id, success: true, ...input, rejected: true };
+      case 'edit': {
+        onLog?.('info', `노드 "${data.label}" 수정 후 승인됨`);
+        const text = response.text ?? input.result;
+        return { nodeId: node.id, success: true, result: text, data: this.reparseData(text, input.data) };
+      }
+      default:
+        onLog?.('info', `노드 "${data.label}" 승인됨`);
+        return { nodeId: node.id, success: true, ...input };
+    }
+  }
+
+  /**
+   * Map 노드 실행 - 이전 결과를 항목으로 나누고 항목마다 하위 그래프 실행
+   * 항목은 최대 maxConcurrency개까지 동시에, 한 항목 안의 노드는 위상 정렬 순서대로 실행
+   */
+  private async executeMapNode(
+    node: ExecutionNode,
+    upstream: UpstreamResult[],
+    context: ExecutionContext,
+    onProgress?: ProgressCallback,
+    onLog?: LogCallback
+  ): Promise<ExecutionResult> {
+    const data = node.data as MapNodeData;
+    const plan = this.mapPlans.get(node.id) || { body: [] };
+    const input = this.mergePreviousResults(upstream);
+
+    let items: MapItem[];
+    try {
+      items = splitItems(input.result, data.splitMode, data.csvHeader ?? true, input.data);
+    } catch (error) {
+      return {
+        nodeId: node.id,
+        success: false,
+        error: error instanceof Error ? error.message : '항목 분할 실패',
+      };
+    }
+
+    onLog?.('info', `Map "${data.label}": ${items.length}개 항목, 하위 노드 ${plan.body.length}개`);
+    plan.body.forEach((bodyNode) => onProgress?.({ nodeId: bodyNode.id, status: 'running', progress: 0 }));
+
+    const concurrency = Math.max(1, data.maxConcurrency || DEFAULT_MAX_CONCURRENCY);
+    let next = 0;
+    let done = 0;
+
+    const worker = async () => {
+      while (next < items.length && !this.isCancelled) {
+        const item = next++;
+        this.results.set(this.resultKey(node.id, item), {
+          nodeId: node.id,
+          success: true,
+          result: items[item].text,
+          data: items[item].data,
+          item,
+        });
+        await this.runMapItem(plan, item, context, onLog);
+        done++;
+        onProgress?.({ nodeId: node.id, status: 'running', progress: Math.round((done / items.length) * 100) });
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    this.aggregateMapResults(plan, items.length, onProgress);
+
+    if (this.isCancelled) {
+      return { nodeId: node.id, success: false, error: '실행 취소됨', cancelled: true, itemCount: items.length };
+    }
+
+    return {
+      nodeId: node.id,
+      success: true,
+      result: items.map((i) => i.text).join('\n'),
+      data: items.map((i) => i.data ?? i.text),
+      itemCount: items.length,
+    };
+  }
+
+  /**
+   * 항목 하나에 대해 하위 그래프 실행
+   */
+  private async runMapItem(
+    plan: MapPlan,
+    item: number,
+    context: ExecutionContext,
+    onLog?: LogCallback
+  ): Promise<void> {
+    for (const bodyNode of plan.body) {
+      if (this.isCancelled) return;
+
+      const active = context.edges
+        .filter((e) => e.target === bodyNode.id)
+        .some((e) => this.isEdgeActive(e, item));
+
+      if (!active) {
+        this.results.set(this.resultKey(bodyNode.id, item), {
+          nodeId: bodyNode.id,
+          success: false,
+          skipped: true,
+          item,
+        });
+        continue;
+      }
+
+      // 항목별 진행 상황은 노드 상태를 깜빡이게 하므로 보내지 않고, 끝난 뒤 집계해서 보냄
+      await this.runNode(bodyNode, context, undefined, onLog, item);
+    }
+  }
+
+  /**
+   * 하위 그래프 노드의 항목별 결과를 노드 단위 결과로 집계
+   */
+  private aggregateMapResults(plan: MapPlan, itemCount: number, onProgress?: ProgressCallback): void {
+    for (const bodyNode of plan.body) {
+      const itemResults: ExecutionResult[] = [];
+      for (let item = 0; item < itemCount; item++) {
+        const result = this.results.get(this.resultKey(bodyNode.id, item));
+        if (result) itemResults.push(result);
+      }
+
+      const ran = itemResults.filter((r) => !r.skipped);
+      const failed = ran.filter((r) => !r.success && !r.cancelled);
+      const cancelled = this.isCancelled && itemResults.length < itemCount;
+
+      const status: NodeStatus = cancelled
+        ? 'cancelled'
+        : ran.length === 0
+          ? 'skipped'
+          : failed.length > 0
+            ? 'error'
+            : 'completed';
+
+      const result: ExecutionResult = {
+        nodeId: bodyNode.id,
+        success: status === 'completed',
+        result: ran.filter((r) => r.success && r.result).map((r) => r.result).join('\n\n---\n\n'),
+        files: ran.flatMap((r) => r.files || []),
+        toolCalls: ran.flatMap((r) => r.toolCalls || []),
+        usage: sumUsage(ran.map((r) => r.usage)),
+        error: failed.length > 0 ? `${failed.length}/${ran.length}개 항목 실패: ${failed[0].error?.trim()}` : undefined,
+        cancelled: cancelled || undefined,
+        skipped: status === 'skipped' || undefined,
+      };
+
+      this.results.set(bodyNode.id, result);
+      onProgress?.({ nodeId: bodyNode.id, status, progress: status === 'completed' ? 100 : 0, error: result.error });
+    }
+  }
+
+  /**
+   * Reduce 노드 실행 - map 하위 그래프의 항목별 결과를 하나로 모음
+   */
+  private async executeReduceNode(node: ExecutionNode, context: ExecutionContext): Promise<ExecutionResult> {
+    const data = node.data as ReduceNodeData;
+    const incoming = context.edges.filter((e) => e.target === node.id);
+    const itemEdges = incoming.filter((e) => this.mapScopes.has(e.source));
+    const mapId = itemEdges[0] && this.mapScopes.get(itemEdges[0].source);
+
+    if (!mapId) {
+      return { nodeId: node.id, success: false, error: 'reduce 노드는 map 노드의 하위 그래프 뒤에 연결해야 합니다.' };
+    }
+
+    const itemCount = this.results.get(mapId)?.itemCount ?? 0;
+    const gathered: Array<{ item: string; result: string }> = [];
+    const collected: Array<{ item: unknown; result: unknown }> = [];
+    const files: GeneratedFile[] = [];
+
+    for (let item = 0; item < itemCount; item++) {
+      const parts: string[] = [];
+      const values: unknown[] = [];
+      for (const edge of itemEdges) {
+        if (!this.isEdgeActive(edge, item)) continue;
+        const result = this.results.get(this.resultKey(edge.source, item));
+        if (result?.result) parts.push(result.result);
+        if (result) values.push(result.data ?? result.result);
+        if (result?.files) files.push(...result.files);
+      }
+      const mapItem = this.results.get(this.resultKey(mapId, item));
+      gathered.push({ item: mapItem?.result || '', result: parts.join('\n\n') });
+      collected.push({
+        item: mapItem?.data ?? mapItem?.result,
+        result: values.length === 0 ? null : values.length === 1 ? values[0] : values,
+      });
+    }
+
+    // map 바깥에서 들어오는 결과는 앞에 그대로 붙임
+    const extra = incoming
+      .filter((e) => !this.mapScopes.has(e.source) && this.isEdgeActive(e))
+      .map((e) => this.results.get(e.source)?.result)
+      .filter(Boolean);
+
+    const combined =
+      data.outputFormat === 'json'
+        ? JSON.stringify(gathered, null, 2)
+        : gathered
+            .map(({ item, result }, i) => `## 항목 ${i + 1}: ${item.split('\n')[0].slice(0, 80)}\n\n${result || '(결과 없음)'}`)
+            .join('\n\n');
+
+    return {
+      nodeId: node.id,
+      success: true,
+      result: [...extra, combined].join('\n\n---\n\n'),
+      data: collected,
+      files,
+    };
+  }
+
   /**
    * Output 노드 실행 - 결과 수집 및 파일 저장
    */
@@ -328,10 +1640,12 @@ ${previousResults || '(없음)'}
     onLog?.('info', '최종 결과 수집 및 저장 중...');
 
     // 모든 이전 결과와 파일 수집
-    const allFiles: Array<{ path: string; type: string; name: string }> = [];
+    const allFiles: GeneratedFile[] = [];
 
-    for (const [, result] of this.results) {
-      if (result.files) {
+    // 다른 브랜치가 동시에 결과를 기록할 수 있으므로 현재 시점의 스냅샷을 사용
+    // map 항목별 결과는 노드 단위 집계 결과에 파일이 포함되어 있으므로 제외
+    for (const result of Array.from(this.results.values())) {
+      if (result.files && result.item === undefined) {
         allFiles.push(...result.files);
       }
     }
@@ -345,7 +1659,7 @@ ${previousResults || '(없음)'}
 ${previousResults}
 
 ## 생성된 파일 목록
-${allFiles.map((f) => `- **${f.name}**: \`${f.path}\``).join('\n') || '없음'}
+${allFiles.map((f) => `- **${f.name}**${f.change ? ` (${FILE_CHANGE_LABELS[f.change]})` : ''}: \`${f.path}\``).join('\n') || '없음'}
 
 ---
 생성 시간: ${new Date().toLocaleString('ko-KR')}
@@ -374,20 +1688,66 @@ ${allFiles.map((f) => `- **${f.name}**: \`${f.path}\``).join('\n') || '없음'}
   }
 
   /**
-   * 이전 노드 결과 수집
+   * 이전 노드 결과 수집 - 활성 엣지의 결과를 출처 노드와 함께 반환
    */
-  private collectPreviousResults(node: ExecutionNode, edges: WorkflowEdge[]): string {
-    const incomingEdges = edges.filter((e) => e.target === node.id);
-    const previousResults: string[] = [];
+  private collectPreviousResults(node: ExecutionNode, context: ExecutionContext, item?: number): UpstreamResult[] {
+    const incomingEdges = context.edges.filter((e) => e.target === node.id);
+    const upstream: UpstreamResult[] = [];
 
     for (const edge of incomingEdges) {
-      const result = this.results.get(edge.source);
-      if (result?.result) {
-        previousResults.push(result.result);
-      }
+      if (!this.isEdgeActive(edge, item)) continue;
+      const result = this.results.get(this.resultKey(edge.source, item));
+      if (!result || (!result.result && result.data === undefined)) continue;
+      const source = context.nodes.find((n) => n.id === edge.source);
+      upstream.push({
+        nodeId: edge.source,
+        label: source?.data.label || edge.source,
+        result: result.result,
+        data: result.data,
+      });
     }
 
-    return previousResults.join('\n\n---\n\n');
+    return upstream;
+  }
+
+  /**
+   * 프롬프트용 이전 결과 - 출처 노드별 섹션으로 구분하고 구조화된 data는 JSON 블록으로 첨부
+   */
+  private formatPreviousResults(upstream: UpstreamResult[]): string {
+    return upstream
+      .map(({ nodeId, label, result, data }) => {
+        const sections = [`### ${label} (${nodeId})`];
+        if (result) sections.push(result);
+        if (data !== undefined) sections.push('```json\n' + JSON.stringify(data, null, 2) + '\n```');
+        return sections.join('\n\n');
+      })
+      .join('\n\n---\n\n');
+  }
+
+  /**
+   * 조건/승인/map 입력 - 이전 결과가 하나면 텍스트와 data를 그대로, 여러 개면 합친 텍스트만 사용
+   */
+  private mergePreviousResults(upstream: UpstreamResult[]): { result: string; data?: unknown } {
+    if (upstream.length === 1) {
+      const [only] = upstream;
+      return {
+        result: only.result ?? JSON.stringify(only.data, null, 2),
+        data: only.data,
+      };
+    }
+    return { result: this.formatPreviousResults(upstream) };
+  }
+
+  /**
+   * 승인 단계에서 수정된 텍스트를 다시 구조화 - 원래 data가 있을 때만 JSON으로 해석
+   */
+  private reparseData(text: string, original?: unknown): unknown {
+    if (original === undefined) return undefined;
+    try {
+      return parseJsonFromText(text);
+    } catch {
+      return undefined;
+    }
   }
 
   /**
@@ -436,4 +1796,3 @@ ${allFiles.map((f) => `- **${f.name}**: \`${f.path}\``).join('\n') || '없음'}
   }
 }
 
-export const workflowExecutionService = new WorkflowExecutionService();
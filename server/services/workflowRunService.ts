@@ -0,0 +1,320 @@
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { fileService } from './fileService';
+import { WorkflowExecutionService, type ExecutionResult } from './workflowExecutionService';
+import { runHistoryService } from './runHistoryService';
+import { workspaceService } from './workspaceService';
+import { runEventService } from './runEventService';
+import type {
+  ActiveRun,
+  ApprovalRequest,
+  ApprovalResponse,
+  NodeExecutionUpdate,
+  NodeOutputEvent,
+  RunStatus,
+  RunTrigger,
+  UsageStats,
+  WorkflowExecutionRequest,
+  WorkflowResultPayload,
+  WorkspaceChangesPayload,
+} from '../types';
+
+// 이벤트는 모두 runId가 붙은 상태로 전달됨
+// 소켓 클라이언트는 콜백 대신 runEventService에 보관되는 이벤트를 구독 (subscribe:run)
+export interface RunCallbacks {
+  onStarted?: (runId: string) => void;
+  onProgress?: (update: NodeExecutionUpdate) => void;
+  onLog?: (type: 'info' | 'warn' | 'error' | 'debug', message: string) => void;
+  onApproval?: (request: ApprovalRequest) => void;
+  onOutput?: (output: NodeOutputEvent) => void;
+}
+
+export interface RunOptions {
+  resume?: boolean; // 이전 실행 상태에서 실패한 노드부터 다시 실행 (outputDir가 없으면 가장 최근에 끝난 실행)
+  outputDir?: string; // 기본값: <projectRoot>/output/<workflowId>/<runId> - 실행마다 따로 두어 이전 실행의 결과 파일을 덮어쓰지 않음
+  trigger?: RunTrigger;
+  scheduleId?: string;
+}
+
+export interface RunOutcome {
+  runId?: string; // 실행 기록을 만들기 전에 실패하면 없음
+  status: Exclude<RunStatus, 'running'>;
+  results: WorkflowResultPayload[];
+  usage?: UsageStats;
+  workspace?: WorkspaceChangesPayload; // 격리 실행 - 확인 후 프로젝트에 적용할 변경 사항
+  outputDir: string;
+  error?: string; // 실행 자체가 예외로 끝난 경우 (노드 실패는 results에)
+}
+
+/**
+ * 실행 결과 Map을 클라이언트로 보낼 배열 형태로 변환
+ */
+export function toWorkflowResults(
+  results: Map<string, ExecutionResult>,
+  request: Pick<WorkflowExecutionRequest, 'nodes'>
+): WorkflowResultPayload[] {
+  const allResults: WorkflowResultPayload[] = [];
+
+  for (const [nodeId, result] of results) {
+    // map 항목별 결과는 노드 단위 집계 결과로 대신함
+    if (result.item !== undefined) continue;
+
+    const node = request.nodes.find((n) => n.id === nodeId);
+    allResults.push({
+      nodeId,
+      label: node?.data.label || nodeId,
+      success: result.success,
+      result: result.result,
+      data: result.data,
+      toolCalls: result.toolCalls,
+      usage: result.usage,
+      files: result.files,
+      error: result.error,
+      errorKind: result.errorKind,
+      cancelled: result.cancelled,
+      skipped: result.skipped,
+      rejected: result.rejected,
+    });
+  }
+
+  return allResults;
+}
+
+/**
+ * 실패한 노드 결과 - 선택되지 않은 분기나 거부된 승인 뒤에서 건너뛴 노드는 실패가 아님
+ */
+export function isFailedResult(result: Pick<WorkflowResultPayload, 'success' | 'skipped'>): boolean {
+  return !result.success && !result.skipped;
+}
+
+type ActiveRunsListener = (runs: ActiveRun[]) => void;
+
+/**
+ * 워크플로우 실행 관리 - 실행 한 번의 전체 과정(실행 기록, 격리 작업 공간, 결과 정리)을 맡는다.
+ * 실행마다 WorkflowExecutionService 인스턴스를 따로 만들므로 여러 워크플로우를 동시에 실행할 수 있다.
+ * 편집기(socket), 예약 실행, HTTP API, makecc run이 같은 경로로 실행한다.
+ */
+class WorkflowRunService {
+  private runs = new Map<string, { info: ActiveRun; executor: WorkflowExecutionService }>();
+  // 실행 상태(run-state.json)를 읽거나 쓰는 중인 공유 출력 디렉토리 - 직접 지정한 outputDir와 재실행할 이전 실행의 디렉토리
+  private busyOutputDirs = new Set<string>();
+  private listeners = new Set<ActiveRunsListener>();
+
+  /**
+   * 진행 중인 실행 목록 (시작 순)
+   */
+  listActive(): ActiveRun[] {
+    return [...this.runs.values()].map((run) => run.info);
+  }
+
+  /**
+   * 실행 취소
+   * @returns 취소할 실행이 있었으면 true
+   */
+  cancel(runId: string): boolean {
+    return this.runs.get(runId)?.executor.cancel() ?? false;
+  }
+
+  /**
+   * 대기 중인 승인 요청에 응답 (approvalId는 실행 전체에서 고유)
+   * @returns 해당 승인 요청이 있었으면 true
+   */
+  respondApproval(response: ApprovalResponse): boolean {
+    for (const [runId, run] of this.runs) {
+      if (run.executor.respondApproval(response)) {
+        // 다시 구독한 클라이언트가 이미 처리된 승인 요청을 표시하지 않도록
+        runEventService.push(runId, 'approval:resolved', { approvalId: response.approvalId, action: response.action });
+        return true;
+      }
+    }
+    return false;
+  }
+
+  onChange(listener: ActiveRunsListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    const runs = this.listActive();
+    for (const listener of this.listeners) {
+      listener(runs);
+    }
+  }
+
+  async run(request: WorkflowExecutionRequest, options: RunOptions = {}, callbacks: RunCallbacks = {}): Promise<RunOutcome> {
+    const newRunId = randomUUID();
+    const outputDir = options.outputDir || join(fileService.getProjectPath(), 'output', request.workflowId, newRunId);
+    const isolation = request.isolation && request.isolation !== 'none' ? request.isolation : undefined;
+
+    // 재사용한 노드의 파일 변경은 이전 작업 공간에만 있어 새 작업 공간의 변경 사항에 포함되지 않음
+    if (options.resume && isolation) {
+      return { status: 'failed', results: [], outputDir, error: '격리 실행은 실패 지점부터 재실행할 수 없습니다. 처음부터 다시 실행하세요.' };
+    }
+
+    let resumeFrom: string | undefined;
+    if (options.resume) {
+      resumeFrom = options.outputDir || (await runHistoryService.getLatestFinishedRun(request.workflowId))?.outputDir;
+      if (!resumeFrom) {
+        return { status: 'failed', results: [], outputDir, error: '재실행할 이전 실행 기록이 없습니다.' };
+      }
+    }
+
+    // 실행마다 새로 만드는 출력 디렉토리는 겹치지 않으므로 공유 디렉토리만 잠금
+    const lockedDir = options.outputDir || resumeFrom;
+    if (lockedDir && this.busyOutputDirs.has(lockedDir)) {
+      return { status: 'failed', results: [], outputDir, error: '같은 출력 디렉토리를 쓰는 실행이 이미 진행 중입니다.' };
+    }
+
+    if (lockedDir) {
+      this.busyOutputDirs.add(lockedDir);
+    }
+    const executor = new WorkflowExecutionService();
+    let runId: string | undefined;
+
+    try {
+      const run = await runHistoryService.startRun(request, outputDir, options.resume, {
+        runId: newRunId,
+        trigger: options.trigger,
+        scheduleId: options.scheduleId,
+      });
+      runId = run.runId;
+
+      this.runs.set(run.runId, {
+        info: {
+          runId: run.runId,
+          workflowId: request.workflowId,
+          workflowName: request.workflowName,
+          trigger: options.trigger ?? 'manual',
+          startedAt: run.startedAt,
+          outputDir,
+        },
+        executor,
+      });
+      this.notify();
+
+      // 격리 실행 - 에이전트는 프로젝트 복사본/worktree에서만 파일을 수정
+      let workingDirectory: string | undefined;
+      if (isolation) {
+        workingDirectory = await workspaceService.create(run.runId, fileService.getProjectPath(), isolation);
+        await runHistoryService.updateWorkspace(run.runId, {
+          mode: isolation,
+          dir: workingDirectory,
+          status: 'pending',
+          changedFiles: 0,
+        });
+      }
+
+      const emit = (event: string, data: object) => runEventService.push(run.runId, event, data);
+      const emitLog = (type: 'info' | 'warn' | 'error' | 'debug', message: string) =>
+        emit('console:log', { type, message, timestamp: new Date().toISOString() });
+
+      // 시작한 쪽이 먼저 구독할 수 있도록 콜백을 부른 뒤 시작 이벤트를 보관
+      callbacks.onStarted?.(run.runId);
+      emit('workflow:started', { workflowId: request.workflowId });
+      emitLog(
+        'info',
+        options.resume
+          ? `워크플로우 "${request.workflowName}" 실패 지점부터 재실행...`
+          : `워크플로우 "${request.workflowName}" 실행 시작...`
+      );
+
+      const results = await executor.execute(
+        {
+          workflowId: request.workflowId,
+          workflowName: request.workflowName,
+          nodes: request.nodes,
+          edges: request.edges,
+          inputs: request.inputs,
+          outputDir,
+          maxConcurrency: request.maxConcurrency,
+          defaultTimeoutMs: request.defaultTimeoutMs,
+          backend: request.backend,
+          resume: options.resume,
+          resumeFrom,
+          workingDirectory,
+        },
+        (update) => {
+          runHistoryService.recordNodeUpdate(run.runId, update);
+          emit('node:update', update);
+          callbacks.onProgress?.({ ...update, runId: run.runId });
+        },
+        (type, message) => {
+          emitLog(type, message);
+          callbacks.onLog?.(type, message);
+        },
+        (approval) => {
+          emit('approval:requested', approval);
+          callbacks.onApproval?.({ ...approval, runId: run.runId });
+        },
+        (output) => {
+          emit('node:output', output);
+          callbacks.onOutput?.({ ...output, runId: run.runId });
+        }
+      );
+
+      const allResults = toWorkflowResults(results, request);
+      const status = executor.isCancelled
+        ? 'cancelled'
+        : allResults.some(isFailedResult)
+          ? 'failed'
+          : 'completed';
+
+      // 실행이 끝난 뒤 작업 공간의 변경 사항 (적용은 사용자가 확인한 뒤)
+      let workspace: WorkspaceChangesPayload | undefined;
+      if (isolation && workingDirectory) {
+        const changes = await workspaceService.getChanges(run.runId);
+        await runHistoryService.updateWorkspace(run.runId, {
+          mode: isolation,
+          dir: workingDirectory,
+          status: 'pending',
+          changedFiles: changes.length,
+        });
+        workspace = { runId: run.runId, mode: isolation, changes };
+      }
+
+      const record = await runHistoryService.finishRun(run.runId, status, allResults);
+      const usage = record?.usage;
+
+      // 취소된 경우 부분 결과와 함께 종료 이벤트
+      const payload = { workflowId: request.workflowId, results: allResults, usage, workspace, outputDir };
+      if (status === 'cancelled') {
+        emit('workflow:cancelled', payload);
+      } else {
+        emit('workflow:completed', payload);
+        if (workspace) {
+          emitLog('info', `작업 공간에서 ${workspace.changes.length}개 파일이 변경되었습니다. 확인 후 프로젝트에 적용하세요.`);
+        }
+        emitLog('info', `워크플로우 실행 완료! 결과가 ${outputDir}에 저장되었습니다.`);
+      }
+
+      return { runId, status, results: allResults, usage, workspace, outputDir };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      if (runId) {
+        await runHistoryService.finishRun(runId, 'failed', [], errorMessage).catch((err) => {
+          console.error('Failed to save run record:', err);
+        });
+        runEventService.push(runId, 'console:log', {
+          type: 'error',
+          message: `실행 오류: ${errorMessage}`,
+          timestamp: new Date().toISOString(),
+        });
+        runEventService.push(runId, 'workflow:error', { workflowId: request.workflowId, error: errorMessage });
+      }
+      return { runId, status: 'failed', results: [], outputDir, error: errorMessage };
+    } finally {
+      if (lockedDir) {
+        this.busyOutputDirs.delete(lockedDir);
+      }
+      if (runId) {
+        runEventService.finish(runId);
+        if (this.runs.delete(runId)) {
+          this.notify();
+        }
+      }
+    }
+  }
+}
+
+export const workflowRunService = new WorkflowRunService();
@@ -0,0 +1,242 @@
+import { join, dirname, relative, sep } from 'path';
+import { tmpdir } from 'os';
+import { existsSync } from 'fs';
+import { cp, lstat, mkdir, readFile, readdir, rm, unlink, writeFile, copyFile } from 'fs/promises';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { createUnifiedDiff } from '../utils/textDiff';
+import { takeSnapshot, hashContent, createIgnoreFilter } from '../utils/changeTracker';
+import type { IsolationMode, WorkspaceChange } from '../types';
+
+const execFileAsync = promisify(execFile);
+
+// 최상위 output/은 실행 결과 저장 위치 (항상 실제 프로젝트에 기록)
+// 그 밖에 복사하지 않는 파일은 변경 추적과 같은 규칙 (.git, node_modules 등 + .gitignore)
+const OUTPUT_DIR = 'output';
+
+// 적용하지 않은 작업 공간을 보관하는 기간 - 서버 시작 시 이보다 오래된 작업 공간은 삭제
+const WORKSPACE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// 이보다 큰 파일은 diff 본문 없이 변경 여부만 표시
+const MAX_DIFF_BYTES = 512 * 1024;
+
+const RUN_ID_PATTERN = /^[\w-]+$/;
+
+// <tmpdir>/makecc-workspaces/<runId>.json - 서버를 재시작해도 적용/폐기할 수 있도록 저장
+interface WorkspaceManifest {
+  runId: string;
+  mode: Exclude<IsolationMode, 'none'>;
+  projectRoot: string;
+  dir: string;
+  createdAt: string;
+  baseline: Record<string, string>; // 상대 경로 → 생성 직후 내용 해시
+}
+
+function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
+
+/**
+ * 실행별 격리 작업 공간
+ * 프로젝트를 복사(copy)하거나 git worktree를 만들어 에이전트가 그 안에서만 파일을 수정하게 하고,
+ * 실행이 끝나면 생성 시점과 비교한 변경 사항을 diff로 보여준 뒤 확인을 받아 실제 프로젝트에 적용한다.
+ */
+class WorkspaceService {
+  private get rootDir(): string {
+    return join(tmpdir(), 'makecc-workspaces');
+  }
+
+  private manifestPath(runId: string): string {
+    if (!RUN_ID_PATTERN.test(runId)) {
+      throw new Error(`잘못된 실행 ID: ${runId}`);
+    }
+    return join(this.rootDir, `${runId}.json`);
+  }
+
+  /**
+   * 작업 공간 파일별 내용 해시 (출력 디렉토리, .gitignore 대상 제외)
+   */
+  private async hashTree(dir: string): Promise<Record<string, string>> {
+    const snapshot = await takeSnapshot(dir, { exclude: [join(dir, OUTPUT_DIR)] });
+    return Object.fromEntries([...snapshot].map(([path, entry]) => [path, entry.hash]));
+  }
+
+  private async loadManifest(runId: string): Promise<WorkspaceManifest | null> {
+    const path = this.manifestPath(runId);
+    if (!existsSync(path)) return null;
+    return JSON.parse(await readFile(path, 'utf-8')) as WorkspaceManifest;
+  }
+
+  /**
+   * 작업 공간 생성 - 에이전트 실행에 사용할 디렉토리 반환
+   * worktree는 HEAD 커밋 기준이므로 커밋하지 않은 변경은 작업 공간에 없음
+   */
+  async create(runId: string, projectRoot: string, mode: Exclude<IsolationMode, 'none'>): Promise<string> {
+    const dir = join(this.rootDir, runId);
+    await mkdir(this.rootDir, { recursive: true });
+
+    if (mode === 'worktree') {
+      try {
+        await execFileAsync('git', ['-C', projectRoot, 'rev-parse', '--is-inside-work-tree']);
+      } catch {
+        throw new Error('git 저장소가 아니어서 worktree를 만들 수 없습니다. 복사(copy) 모드를 사용하세요.');
+      }
+      await execFileAsync('git', ['-C', projectRoot, 'worktree', 'add', '--detach', dir, 'HEAD']);
+    } else {
+      const isIgnored = createIgnoreFilter(projectRoot);
+      await cp(projectRoot, dir, {
+        recursive: true,
+        filter: async (source) => {
+          const relPath = relative(projectRoot, source);
+          if (relPath === '') return true;
+          if (relPath.split(sep)[0] === OUTPUT_DIR) return false;
+          return !(await isIgnored(source, (await lstat(source)).isDirectory()));
+        },
+      });
+    }
+
+    const manifest: WorkspaceManifest = {
+      runId,
+      mode,
+      projectRoot,
+      dir,
+      createdAt: new Date().toISOString(),
+      baseline: await this.hashTree(dir),
+    };
+    await writeFile(this.manifestPath(runId), JSON.stringify(manifest), 'utf-8');
+
+    console.log(`작업 공간 생성 (${mode}): ${dir}`);
+    return dir;
+  }
+
+  /**
+   * 작업 공간 생성 이후 바뀐 파일과 diff
+   * diff의 이전 내용은 실제 프로젝트 파일 (worktree는 HEAD 기준이므로 커밋하지 않은 변경도 diff에 보임)
+   */
+  async getChanges(runId: string): Promise<WorkspaceChange[]> {
+    const manifest = await this.loadManifest(runId);
+    if (!manifest || !existsSync(manifest.dir)) {
+      throw new Error('작업 공간이 없거나 이미 정리되었습니다.');
+    }
+
+    const current = await this.hashTree(manifest.dir);
+    const paths = new Set([...Object.keys(manifest.baseline), ...Object.keys(current)]);
+    const changes: WorkspaceChange[] = [];
+
+    for (const path of [...paths].sort()) {
+      const before = manifest.baseline[path];
+      const after = current[path];
+      if (before === after) continue;
+
+      const status = before === undefined ? 'added' : after === undefined ? 'deleted' : 'modified';
+      const projectFile = join(manifest.projectRoot, path);
+      const original = status !== 'added' && existsSync(projectFile) ? await readFile(projectFile) : null;
+      const updated = status !== 'deleted' ? await readFile(join(manifest.dir, path)) : null;
+
+      const change: WorkspaceChange = { path, status };
+      if ((original && isBinary(original)) || (updated && isBinary(updated))) {
+        change.binary = true;
+      } else if ((original?.length ?? 0) > MAX_DIFF_BYTES || (updated?.length ?? 0) > MAX_DIFF_BYTES) {
+        change.tooLarge = true;
+      } else {
+        change.diff = createUnifiedDiff(path, original?.toString('utf-8') ?? null, updated?.toString('utf-8') ?? null);
+      }
+      changes.push(change);
+    }
+
+    return changes;
+  }
+
+  /**
+   * 변경 사항을 실제 프로젝트에 적용 (paths가 없으면 전체)
+   * 작업 공간을 만든 뒤 프로젝트 쪽 파일도 바뀌었으면 덮어쓰지 않고 conflicts로 돌려준다.
+   * 적용한 파일은 기준 해시를 갱신해 이후 변경 목록에서 빠지고, remaining은 아직 적용하지 않은 파일 수
+   */
+  async apply(runId: string, paths?: string[]): Promise<{ applied: string[]; conflicts: string[]; remaining: number }> {
+    const manifest = await this.loadManifest(runId);
+    if (!manifest) {
+      throw new Error('작업 공간이 없거나 이미 정리되었습니다.');
+    }
+
+    const changes = await this.getChanges(runId);
+    const selected = paths ? changes.filter((c) => paths.includes(c.path)) : changes;
+    const applied: string[] = [];
+    const conflicts: string[] = [];
+
+    for (const change of selected) {
+      const projectFile = join(manifest.projectRoot, change.path);
+      const projectHash = existsSync(projectFile) ? hashContent(await readFile(projectFile)) : undefined;
+      if (projectHash !== manifest.baseline[change.path]) {
+        conflicts.push(change.path);
+        continue;
+      }
+
+      if (change.status === 'deleted') {
+        await unlink(projectFile);
+        delete manifest.baseline[change.path];
+      } else {
+        const workspaceFile = join(manifest.dir, change.path);
+        await mkdir(dirname(projectFile), { recursive: true });
+        await copyFile(workspaceFile, projectFile);
+        manifest.baseline[change.path] = hashContent(await readFile(workspaceFile));
+      }
+      applied.push(change.path);
+    }
+
+    if (applied.length > 0) {
+      await writeFile(this.manifestPath(runId), JSON.stringify(manifest), 'utf-8');
+    }
+    return { applied, conflicts, remaining: changes.length - applied.length };
+  }
+
+  /**
+   * 작업 공간 삭제 (worktree는 git에서도 제거)
+   */
+  async discard(runId: string): Promise<void> {
+    const manifest = await this.loadManifest(runId);
+    if (!manifest) return;
+
+    if (manifest.mode === 'worktree') {
+      await execFileAsync('git', ['-C', manifest.projectRoot, 'worktree', 'remove', '--force', manifest.dir]).catch(
+        (error) => console.error('worktree 제거 실패:', error)
+      );
+    }
+    await rm(manifest.dir, { recursive: true, force: true });
+    await unlink(this.manifestPath(runId));
+  }
+
+  /**
+   * 보관 기간이 지난 작업 공간과 manifest 없이 남은 디렉토리 삭제 (서버 시작 시)
+   * @returns 삭제한 작업 공간의 실행 ID
+   */
+  async cleanup(maxAgeMs = WORKSPACE_RETENTION_MS): Promise<string[]> {
+    if (!existsSync(this.rootDir)) return [];
+
+    const entries = await readdir(this.rootDir, { withFileTypes: true });
+    const manifests = new Set(entries.filter((e) => e.isFile() && e.name.endsWith('.json')).map((e) => e.name.slice(0, -5)));
+    const removed: string[] = [];
+
+    for (const runId of manifests) {
+      try {
+        const manifest = await this.loadManifest(runId);
+        if (manifest && Date.now() - Date.parse(manifest.createdAt) > maxAgeMs) {
+          await this.discard(runId);
+          removed.push(runId);
+        }
+      } catch (error) {
+        console.error(`작업 공간 정리 실패 (${runId}):`, error);
+      }
+    }
+
+    // 생성 도중 중단되어 manifest가 없는 디렉토리
+    for (const entry of entries) {
+      if (entry.isDirectory() && !manifests.has(entry.name)) {
+        await rm(join(this.rootDir, entry.name), { recursive: true, force: true }).catch(() => {});
+      }
+    }
+
+    return removed;
+  }
+}
+
+export const workspaceService = new WorkspaceService();
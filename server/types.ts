@@ -1,5 +1,5 @@
 // Node status type
-export type NodeStatus = 'idle' | 'pending' | 'running' | 'completed' | 'error';
+export type NodeStatus = 'idle' | 'pending' | 'running' | 'waiting' | 'completed' | 'error' | 'cancelled' | 'skipped';
 
 // Base node data
 export interface BaseNodeData {
@@ -27,13 +27,37 @@ export interface InputNodeData extends BaseNodeData {
   fileTypes?: string[];
 }
 
+// 재시도 조건 - timeout: 시간 초과, exit: claude가 0이 아닌 코드로 종료, spawn: 프로세스 실행 실패,
+// schema: 출력이 outputSchema를 만족하지 않음
+export type RetryCondition = 'timeout' | 'exit' | 'spawn' | 'schema';
+
+// 노드 실패 원인 - config: 잘못된 노드 설정이라 다시 시도해도 같은 결과이므로 재시도하지 않음
+export type NodeErrorKind = RetryCondition | 'config';
+
+// 노드 프롬프트 실행 방법 - cli: claude 프로세스, sdk: Claude Agent SDK query(), api: Messages API 직접 호출 (도구 없음)
+export type ExecutionBackendId = 'cli' | 'sdk' | 'api';
+
+// claude 권한 모드 (--permission-mode) - 없으면 CLI 기본값
+export type PermissionMode = 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan';
+
+export interface RetryPolicy {
+  maxAttempts: number; // 첫 시도 포함
+  backoffMs: number; // 첫 재시도 전 대기 시간, 이후 시도마다 2배
+  retryOn?: RetryCondition[]; // 비어 있으면 모든 실패에 재시도
+}
+
 export interface SubagentNodeData extends BaseNodeData {
   role: AgentRole;
-  tools: string[];
+  tools: string[]; // 확인 없이 사용할 수 있는 도구 (--allowedTools)
   mdContent?: string;
-  systemPrompt?: string;
+  systemPrompt?: string; // 기본 시스템 프롬프트 뒤에 덧붙임 (--append-system-prompt)
   model?: 'sonnet' | 'opus' | 'haiku';
+  permissionMode?: PermissionMode;
   usedInputs?: string[];
+  retry?: RetryPolicy;
+  timeoutMs?: number; // 없으면 워크플로우 기본 타임아웃 사용
+  backend?: ExecutionBackendId; // 없으면 워크플로우 기본 백엔드 사용
+  outputSchema?: string; // JSON Schema (문자열) - 있으면 출력을 JSON으로 파싱해 검증하고 data로 전달
 }
 
 export interface SkillNodeData extends BaseNodeData {
@@ -42,7 +66,11 @@ export interface SkillNodeData extends BaseNodeData {
   skillCategory?: string;
   mdContent?: string;
   skillContent?: string; // AI가 생성한 커스텀 스킬 SKILL.md 내용
+  skillArgs?: string; // 스킬 호출 인자 - 템플릿 변수 사용 가능
   usedInputs?: string[];
+  retry?: RetryPolicy;
+  timeoutMs?: number;
+  backend?: ExecutionBackendId;
 }
 
 export interface McpNodeData extends BaseNodeData {
@@ -55,6 +83,44 @@ export interface McpNodeData extends BaseNodeData {
     env?: Record<string, string>;
   };
   usedInputs?: string[];
+  retry?: RetryPolicy;
+  timeoutMs?: number;
+  backend?: ExecutionBackendId;
+}
+
+// 조건 노드 - 이전 결과를 규칙으로 판정해 true/false 핸들 중 하나의 엣지만 활성화
+export type ConditionRuleType = 'regex' | 'contains' | 'jsonPath' | 'llm';
+export type ConditionOperator = 'equals' | 'notEquals' | 'greaterThan' | 'lessThan' | 'exists';
+
+export interface ConditionNodeData extends BaseNodeData {
+  ruleType: ConditionRuleType;
+  pattern?: string; // regex / contains
+  caseSensitive?: boolean;
+  jsonPath?: string; // 예: $.score, items[0].status
+  operator?: ConditionOperator;
+  value?: string; // jsonPath 비교값
+  question?: string; // llm - 예/아니오로 답할 질문
+  timeoutMs?: number;
+  backend?: ExecutionBackendId; // llm
+}
+
+// Map 노드 - 이전 결과를 항목으로 나눠 하위 그래프(짝이 되는 reduce 노드까지)를 항목마다 실행
+export type MapSplitMode = 'json' | 'lines' | 'csv';
+
+export interface MapNodeData extends BaseNodeData {
+  splitMode: MapSplitMode;
+  csvHeader?: boolean; // csv - 첫 행을 헤더로 사용 (기본값 true)
+  maxConcurrency?: number; // 동시에 처리할 최대 항목 수
+}
+
+// Reduce 노드 - map 하위 그래프의 항목별 결과를 모음
+export interface ReduceNodeData extends BaseNodeData {
+  outputFormat?: 'markdown' | 'json';
+}
+
+// 승인 노드 - 사람이 이전 결과를 확인(승인/거부/수정)할 때까지 실행을 멈춤
+export interface ApprovalNodeData extends BaseNodeData {
+  instructions?: string; // 검토자에게 보여줄 안내
 }
 
 export interface OutputNodeData extends BaseNodeData {
@@ -70,12 +136,30 @@ export type WorkflowNodeData =
   | SubagentNodeData
   | SkillNodeData
   | McpNodeData
+  | ConditionNodeData
+  | MapNodeData
+  | ReduceNodeData
+  | ApprovalNodeData
   | OutputNodeData;
 
+export const NODE_TYPES = {
+  INPUT: 'input',
+  AGENT: 'agent',
+  SKILL: 'skill',
+  MCP: 'mcp',
+  CONDITION: 'condition',
+  MAP: 'map',
+  REDUCE: 'reduce',
+  APPROVAL: 'approval',
+  OUTPUT: 'output',
+} as const;
+
+export type NodeType = typeof NODE_TYPES[keyof typeof NODE_TYPES];
+
 // Node structure for execution
 export interface ExecutionNode {
   id: string;
-  type: 'input' | 'agent' | 'skill' | 'mcp' | 'output';
+  type: NodeType;
   data: WorkflowNodeData;
   position: { x: number; y: number };
 }
@@ -89,8 +173,40 @@ export interface WorkflowExecutionRequest {
     id: string;
     source: string;
     target: string;
+    sourceHandle?: string | null; // 조건 노드의 'true' / 'false' 핸들
   }>;
   inputs?: Record<string, string>;
+  maxConcurrency?: number; // 동시에 실행할 최대 노드 수
+  defaultTimeoutMs?: number; // 노드별 timeoutMs가 없을 때의 기본 타임아웃
+  backend?: ExecutionBackendId; // 노드별 backend가 없을 때의 기본 실행 백엔드 (기본값 cli)
+  dryRun?: boolean; // true면 claude를 실행하지 않고 노드별 프롬프트만 만들어 workflow:dryRun으로 전송
+  isolation?: IsolationMode; // 기본값 none (프로젝트 디렉토리에서 바로 실행)
+}
+
+// 실행 격리 - copy: 프로젝트 복사본, worktree: git worktree (HEAD 기준)에서 실행하고 끝나면 변경 사항을 확인 후 적용
+export type IsolationMode = 'none' | 'copy' | 'worktree';
+
+// 격리 작업 공간에서 바뀐 파일 - diff는 실제 프로젝트 파일 기준 unified diff
+export interface WorkspaceChange {
+  path: string; // 프로젝트 루트 기준 상대 경로
+  status: 'added' | 'modified' | 'deleted';
+  diff?: string;
+  binary?: boolean;
+  tooLarge?: boolean;
+}
+
+export interface WorkspaceInfo {
+  mode: Exclude<IsolationMode, 'none'>;
+  dir: string;
+  status: 'pending' | 'applied' | 'discarded';
+  changedFiles: number;
+}
+
+// workflow:completed / workflow:cancelled에 포함되는 격리 실행 결과
+export interface WorkspaceChangesPayload {
+  runId: string;
+  mode: Exclude<IsolationMode, 'none'>;
+  changes: WorkspaceChange[];
 }
 
 // Node execution update
@@ -100,6 +216,192 @@ export interface NodeExecutionUpdate {
   progress?: number;
   result?: string;
   error?: string;
+  errorKind?: NodeErrorKind; // 'timeout'이면 일반 CLI 실패와 구분해 표시
+  attempt?: number; // 재시도 정책이 있는 노드의 현재 시도 횟수
+  maxAttempts?: number;
+  branch?: string; // 조건 노드가 선택한 핸들
+  rejected?: boolean; // 승인 노드가 거부됨
+  runId?: string; // 소켓으로 보낼 때 붙는 실행 ID (동시에 여러 실행이 진행될 수 있음)
+}
+
+// node:output 이벤트 - CLI가 응답 텍스트를 내보낼 때마다 전송 (받은 순서대로 이어 붙이면 전체 응답)
+export interface NodeOutputEvent {
+  nodeId: string;
+  text: string;
+  runId?: string;
+}
+
+// 에이전트가 실행 중 호출한 도구 (stream-json의 tool_use / tool_result 쌍)
+export interface ToolCallRecord {
+  id: string;
+  name: string; // Read, Bash, WebFetch ...
+  input: unknown;
+  startedAt: string;
+  finishedAt?: string; // tool_result가 오지 않았으면 없음 (타임아웃/취소)
+  durationMs?: number;
+  output?: string; // 길면 앞부분만 보관
+  isError?: boolean;
+}
+
+// 토큰 사용량과 비용 - CLI는 result 이벤트 값, SDK 호출은 응답 usage와 모델 단가로 계산
+export interface UsageStats {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+  durationMs: number;
+}
+
+// 노드 실행 중 작업 디렉토리에서 바뀐 파일의 종류
+export type FileChangeKind = 'created' | 'modified' | 'deleted';
+
+// 노드 결과 파일 - change가 있으면 작업 디렉토리의 파일 변경 (생성/수정은 출력 디렉토리에 사본 저장)
+export interface GeneratedFile {
+  path: string; // 사본 경로 (deleted는 삭제된 원래 경로)
+  type: string;
+  name: string; // 작업 디렉토리 기준 상대 경로 또는 표시 이름
+  change?: FileChangeKind; // 응답 저장 파일(claude-output.md), 요약 파일 등은 없음
+}
+
+// Per-node result sent with workflow:completed / workflow:cancelled
+export interface WorkflowResultPayload {
+  nodeId: string;
+  label: string;
+  success: boolean;
+  result?: string;
+  files?: GeneratedFile[];
+  error?: string;
+  errorKind?: NodeErrorKind;
+  cancelled?: boolean;
+  skipped?: boolean;
+  rejected?: boolean;
+  data?: unknown;
+  toolCalls?: ToolCallRecord[];
+  usage?: UsageStats;
+}
+
+// workflow:dryRun 이벤트 - 노드가 실행되면 claude에 전달될 내용
+// 이전 단계 결과는 자리표시자로 채우므로 실제 실행과 입력 내용은 다를 수 있음
+export interface DryRunNodePlan {
+  nodeId: string;
+  label: string;
+  type: NodeType;
+  prompt?: string; // claude를 실행하는 노드만 (agent, skill, mcp, llm 조건)
+  backend?: ExecutionBackendId;
+  workingDirectory?: string;
+  outputDirectory?: string;
+  timeoutMs?: number;
+  tools?: string[];
+  model?: string;
+  systemPrompt?: string;
+  permissionMode?: PermissionMode;
+  retry?: RetryPolicy;
+  outputSchema?: string;
+  notes: string[]; // 분기/반복 여부, 템플릿 변수 경고 등
+}
+
+export interface DryRunResult {
+  workflowId: string;
+  nodes: DryRunNodePlan[]; // 실행 순서
+}
+
+// 실행 기록 - <projectRoot>/.makecc/runs/<runId>.json
+export type RunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+// 실행을 시작한 곳 - 없으면 편집기(manual)
+export type RunTrigger = 'manual' | 'schedule' | 'cli' | 'api';
+
+export interface RunNodeRecord {
+  nodeId: string;
+  label: string;
+  type: string;
+  status: NodeStatus;
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+  attempts?: number;
+  error?: string;
+}
+
+export interface RunSummary {
+  runId: string;
+  workflowId: string;
+  workflowName: string;
+  status: RunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  resumed?: boolean; // 실패 지점부터 재실행한 경우
+  usage?: UsageStats; // 노드 사용량 합계 - 종료 시 계산
+  trigger?: RunTrigger;
+  scheduleId?: string; // trigger가 schedule인 경우
+}
+
+export interface RunRecord extends RunSummary {
+  inputs: Record<string, string>;
+  outputDir: string;
+  nodes: RunNodeRecord[];
+  results: WorkflowResultPayload[];
+  error?: string;
+  workspace?: WorkspaceInfo; // 격리 실행인 경우
+}
+
+// 진행 중인 실행 - GET /api/runs/active, runs:active 이벤트
+export interface ActiveRun {
+  runId: string;
+  workflowId: string;
+  workflowName: string;
+  trigger: RunTrigger;
+  startedAt: string;
+  outputDir: string;
+}
+
+// 서버에 저장된 워크플로우 정의 - <projectRoot>/.makecc/workflows/<id>.json
+// 편집기가 캔버스를 바꿀 때마다 저장하고, POST /api/workflows/:id/runs가 이 정의로 실행
+export interface StoredWorkflow {
+  id: string;
+  name: string;
+  request: Pick<
+    WorkflowExecutionRequest,
+    'nodes' | 'edges' | 'inputs' | 'maxConcurrency' | 'defaultTimeoutMs' | 'backend' | 'isolation'
+  >;
+  updatedAt: string;
+}
+
+// 예약 실행 - <projectRoot>/.makecc/schedules.json
+// 생성 시점의 워크플로우(노드, 엣지, 실행 설정)를 저장해 두고 cron 시각마다 고정된 입력으로 실행
+export interface WorkflowSchedule {
+  id: string;
+  workflowId: string; // 편집기 워크플로우 ID - 출력 디렉토리도 output/<workflowId>
+  workflowName: string;
+  cron: string; // 분 시 일 월 요일 (서버 로컬 시간)
+  inputs: Record<string, string>;
+  request: Pick<WorkflowExecutionRequest, 'nodes' | 'edges' | 'maxConcurrency' | 'defaultTimeoutMs' | 'backend' | 'isolation'>;
+  createdAt: string;
+  lastRunAt?: string;
+  lastRunId?: string;
+  lastStatus?: RunStatus;
+  lastError?: string;
+  nextRunAt?: string; // 목록 조회 시 계산
+}
+
+// approval:requested 이벤트
+export interface ApprovalRequest {
+  approvalId: string;
+  workflowId: string;
+  nodeId: string;
+  label: string;
+  content: string; // 검토할 이전 단계 결과
+  instructions?: string;
+  runId?: string;
+}
+
+// approval:respond 이벤트 - edit는 수정한 text로 승인
+export interface ApprovalResponse {
+  approvalId: string;
+  action: 'approve' | 'reject' | 'edit';
+  text?: string;
 }
 
 // Console log entry
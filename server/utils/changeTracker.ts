@@ -0,0 +1,175 @@
+import { join, relative, sep } from 'path';
+import { existsSync } from 'fs';
+import { readFile, readdir, stat } from 'fs/promises';
+import { createHash } from 'crypto';
+import ignore, { type Ignore } from 'ignore';
+import type { FileChangeKind } from '../types';
+
+/**
+ * 작업 디렉토리 파일 변경 추적
+ * 하위 디렉토리까지 모든 파일의 내용 해시를 기록해 두고, 두 스냅샷을 비교해 생성/수정/삭제된 파일을 찾는다.
+ * .gitignore 규칙(하위 디렉토리의 .gitignore 포함)에 걸리는 파일은 추적하지 않는다.
+ */
+
+// .gitignore와 상관없이 항상 제외하는 디렉토리
+const ALWAYS_IGNORED = new Set(['.git', 'node_modules', '.makecc', '__pycache__']);
+
+// 파일이 이보다 많으면 추적하지 않고 Error (홈 디렉토리 등에서 실행한 경우)
+// 일부만 추적하면 한도 경계의 파일이 생성/삭제된 것처럼 보이므로 잘라내지 않음
+const MAX_TRACKED_FILES = 20000;
+
+export interface FileEntry {
+  hash: string;
+  size: number;
+  mtimeMs: number;
+}
+
+// 루트 기준 상대 경로(/ 구분) → 파일 정보
+export type FileSnapshot = Map<string, FileEntry>;
+
+export interface FileChange {
+  path: string; // 루트 기준 상대 경로
+  change: FileChangeKind;
+}
+
+export interface SnapshotOptions {
+  exclude?: string[]; // 추가로 제외할 절대 경로 (예: 노드 출력 디렉토리)
+  previous?: FileSnapshot; // 크기와 수정 시각이 같은 파일은 이전 해시를 재사용
+}
+
+export class TooManyFilesError extends Error {
+  constructor(root: string) {
+    super(
+      `추적할 파일이 ${MAX_TRACKED_FILES}개를 넘습니다: ${root}. .gitignore로 빌드 결과물 등을 제외하거나 더 작은 디렉토리에서 실행하세요.`
+    );
+    this.name = 'TooManyFilesError';
+  }
+}
+
+function toPosix(path: string): string {
+  return sep === '/' ? path : path.split(sep).join('/');
+}
+
+export function hashContent(content: Buffer): string {
+  return createHash('sha1').update(content).digest('hex');
+}
+
+async function loadIgnoreFile(dir: string): Promise<Ignore | null> {
+  const path = join(dir, '.gitignore');
+  if (!existsSync(path)) return null;
+  try {
+    return ignore().add(await readFile(path, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * root 아래 경로가 추적 대상에서 빠지는지 검사하는 함수 (항상 제외하는 디렉토리, 하위 디렉토리의 .gitignore 포함)
+ * 디렉토리별 .gitignore는 처음 필요할 때 한 번만 읽는다.
+ */
+export function createIgnoreFilter(root: string): (fullPath: string, isDirectory: boolean) => Promise<boolean> {
+  const ignoreFiles = new Map<string, Promise<Ignore | null>>();
+  const rulesFor = (dir: string) => {
+    let rules = ignoreFiles.get(dir);
+    if (!rules) {
+      rules = loadIgnoreFile(dir);
+      ignoreFiles.set(dir, rules);
+    }
+    return rules;
+  };
+
+  return async (fullPath, isDirectory) => {
+    const parts = relative(root, fullPath).split(sep).filter(Boolean);
+    if (parts.some((part) => ALWAYS_IGNORED.has(part))) return true;
+
+    // 규칙은 .gitignore가 있는 디렉토리 기준 상대 경로로 검사
+    let dir = root;
+    for (const part of parts) {
+      const ig = await rulesFor(dir);
+      if (ig) {
+        const relPath = toPosix(relative(dir, fullPath));
+        if (ig.ignores(isDirectory ? `${relPath}/` : relPath)) return true;
+      }
+      dir = join(dir, part);
+    }
+    return false;
+  };
+}
+
+/**
+ * 디렉토리 아래 추적 대상 파일의 스냅샷
+ */
+export async function takeSnapshot(root: string, options: SnapshotOptions = {}): Promise<FileSnapshot> {
+  const snapshot: FileSnapshot = new Map();
+  if (!existsSync(root)) return snapshot;
+
+  const excluded = new Set(options.exclude ?? []);
+  const isIgnored = createIgnoreFilter(root);
+
+  const walk = async (dir: string) => {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch (err) {
+      console.error('Error reading directory:', err);
+      return;
+    }
+
+    for (const entry of entries) {
+      const fullPath = join(dir, entry.name);
+      const isDirectory = entry.isDirectory();
+      if (!isDirectory && !entry.isFile()) continue; // 심볼릭 링크, 소켓 등
+      if (excluded.has(fullPath) || (await isIgnored(fullPath, isDirectory))) continue;
+
+      if (isDirectory) {
+        await walk(fullPath);
+        continue;
+      }
+
+      try {
+        const stats = await stat(fullPath);
+        const relPath = toPosix(relative(root, fullPath));
+        const previous = options.previous?.get(relPath);
+        const hash =
+          previous && previous.size === stats.size && previous.mtimeMs === stats.mtimeMs
+            ? previous.hash
+            : hashContent(await readFile(fullPath));
+        if (snapshot.size >= MAX_TRACKED_FILES) {
+          throw new TooManyFilesError(root);
+        }
+        snapshot.set(relPath, { hash, size: stats.size, mtimeMs: stats.mtimeMs });
+      } catch (err) {
+        if (err instanceof TooManyFilesError) throw err;
+        // 읽는 도중 삭제된 파일
+      }
+    }
+  };
+
+  await walk(root);
+  return snapshot;
+}
+
+/**
+ * 두 스냅샷 사이에 생성/수정/삭제된 파일 (경로순)
+ * 수정 시각만 바뀌고 내용이 같은 파일은 변경으로 보지 않는다.
+ */
+export function diffSnapshots(before: FileSnapshot, after: FileSnapshot): FileChange[] {
+  const changes: FileChange[] = [];
+
+  for (const [path, entry] of after) {
+    const previous = before.get(path);
+    if (!previous) {
+      changes.push({ path, change: 'created' });
+    } else if (previous.hash !== entry.hash) {
+      changes.push({ path, change: 'modified' });
+    }
+  }
+  for (const path of before.keys()) {
+    if (!after.has(path)) {
+      changes.push({ path, change: 'deleted' });
+    }
+  }
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -0,0 +1,87 @@
+/**
+ * 조건 노드 판정 유틸리티
+ * regex / contains / jsonPath 규칙은 여기서 바로 판정하고, llm 규칙은 실행 서비스에서 처리한다.
+ */
+
+import type { ConditionNodeData } from '../types';
+import { parseJsonFromText, getJsonPathValue } from './json';
+
+/**
+ * JSON 경로 값과 비교값을 연산자로 비교
+ * 숫자로 해석되면 숫자로, 아니면 문자열로 비교
+ */
+function compareValue(actual: unknown, operator: ConditionNodeData['operator'], expected: string): boolean {
+  if (operator === 'exists') {
+    return actual !== undefined && actual !== null;
+  }
+
+  const actualText = typeof actual === 'string' ? actual : JSON.stringify(actual);
+  const actualNumber = toFiniteNumber(actual);
+  const expectedNumber = toFiniteNumber(expected);
+  const numeric = actualNumber !== undefined && expectedNumber !== undefined;
+
+  switch (operator) {
+    case 'notEquals':
+      return numeric ? actualNumber !== expectedNumber : actualText !== expected;
+    case 'greaterThan':
+      return numeric && actualNumber > expectedNumber;
+    case 'lessThan':
+      return numeric && actualNumber < expectedNumber;
+    case 'equals':
+    default:
+      return numeric ? actualNumber === expectedNumber : actualText === expected;
+  }
+}
+
+/**
+ * 숫자 비교에 쓸 값 - 유한한 숫자나 숫자 문자열만 인정
+ * Number()는 null, 빈 문자열, true, [] 등을 0이나 1로 바꾸므로 직접 사용하지 않는다.
+ */
+function toFiniteNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * regex / contains / jsonPath 규칙 판정
+ * jsonPath는 이전 노드의 구조화된 data가 있으면 그것을, 없으면 텍스트에서 찾은 JSON을 사용한다.
+ * 잘못된 정규식이나 JSON이 아닌 입력은 예외를 던진다.
+ */
+export function evaluateCondition(data: ConditionNodeData, input: string, json?: unknown): boolean {
+  switch (data.ruleType) {
+    case 'regex':
+      return new RegExp(data.pattern || '', data.caseSensitive ? '' : 'i').test(input);
+
+    case 'contains': {
+      const pattern = data.pattern || '';
+      return data.caseSensitive
+        ? input.includes(pattern)
+        : input.toLowerCase().includes(pattern.toLowerCase());
+    }
+
+    case 'jsonPath': {
+      const value = json !== undefined ? json : parseJsonFromText(input);
+      const actual = getJsonPathValue(value, data.jsonPath || '$');
+      return compareValue(actual, data.operator || 'equals', data.value ?? '');
+    }
+
+    default:
+      throw new Error(`지원하지 않는 조건 규칙: ${data.ruleType}`);
+  }
+}
+
+/**
+ * LLM 판정 응답을 yes/no로 해석
+ */
+export function parseYesNo(answer: string): boolean | null {
+  const normalized = answer.trim().toLowerCase();
+  if (/^(yes|true|예|네)(?![a-z])/.test(normalized)) return true;
+  if (/^(no|false|아니오|아니요)(?![a-z])/.test(normalized)) return false;
+  return null;
+}
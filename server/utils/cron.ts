@@ -0,0 +1,164 @@
+/**
+ * 5필드 cron 표현식 (분 시 일 월 요일) - 서버 로컬 시간 기준
+ * 지원: *, 목록(1,15), 범위(1-5), 간격(*\/15, 9-17/2), 요일/월 이름(MON-FRI, JAN), @hourly/@daily/@weekly/@monthly
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>; // 0 = 일요일 (7도 일요일로 처리)
+  dayRestricted: boolean; // 일 필드가 모든 일을 포함하지 않음 (*, */1, 1-31 등이 아님)
+  weekdayRestricted: boolean; // 요일 필드가 모든 요일을 포함하지 않음
+}
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  nameOffset?: number; // names[0]에 해당하는 값
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: '분', min: 0, max: 59 },
+  { name: '시', min: 0, max: 23 },
+  { name: '일', min: 1, max: 31 },
+  { name: '월', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: '요일', min: 0, max: 7, names: WEEKDAY_NAMES, nameOffset: 0 },
+];
+
+// nextCronTime이 찾는 최대 범위 (2월 29일 같은 드문 조합 포함)
+const MAX_SEARCH_DAYS = 366 * 5;
+
+function parseValue(token: string, spec: FieldSpec): number {
+  const index = spec.names?.indexOf(token.toUpperCase()) ?? -1;
+  const value = index >= 0 ? index + (spec.nameOffset ?? 0) : Number(token);
+  if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new Error(`cron ${spec.name} 필드 값이 올바르지 않습니다: ${token}`);
+  }
+  return value;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step <= 0) {
+      throw new Error(`cron ${spec.name} 필드 간격이 올바르지 않습니다: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new Error(`cron ${spec.name} 필드 범위가 올바르지 않습니다: ${range}`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      end = stepText === undefined ? start : spec.max; // 5/10 = 5부터 10 간격
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * cron 표현식 파싱 - 잘못된 표현식이면 Error
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = ALIASES[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`cron 표현식은 5개 필드(분 시 일 월 요일)여야 합니다: ${expression}`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) => parseField(field, FIELDS[i]));
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    dayRestricted: days.size < FIELDS[2].max - FIELDS[2].min + 1,
+    weekdayRestricted: weekdays.size < 7,
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.months.has(date.getMonth() + 1)) return false;
+
+  const dayMatch = schedule.days.has(date.getDate());
+  const weekdayMatch = schedule.weekdays.has(date.getDay());
+  // 일과 요일이 모두 지정되면 둘 중 하나만 맞아도 실행 (표준 cron 동작)
+  if (schedule.dayRestricted && schedule.weekdayRestricted) {
+    return dayMatch || weekdayMatch;
+  }
+  return dayMatch && weekdayMatch;
+}
+
+/**
+ * date가 속한 분에 실행해야 하는지
+ */
+export function matchesCron(schedule: CronSchedule, date: Date): boolean {
+  return (
+    matchesDay(schedule, date) && schedule.hours.has(date.getHours()) && schedule.minutes.has(date.getMinutes())
+  );
+}
+
+/**
+ * from 이후(같은 분 제외) 처음으로 실행할 시각 - 찾지 못하면 null
+ */
+export function nextCronTime(schedule: CronSchedule, from: Date = new Date()): Date | null {
+  const candidate = new Date(from);
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  const limit = from.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+
+  while (candidate.getTime() <= limit) {
+    if (!matchesDay(schedule, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return candidate;
+  }
+
+  return null;
+}
@@ -0,0 +1,55 @@
+/**
+ * LLM 출력에서 JSON을 다루는 유틸리티
+ */
+
+/**
+ * 텍스트에서 JSON 값 추출
+ * 전체가 JSON이 아니면 ```json 코드 블록 또는 첫 번째 {...} / [...] 구간을 시도
+ */
+export function parseJsonFromText(text: string): unknown {
+  const candidates = [text.trim()];
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) {
+    candidates.push(fenced[1].trim());
+  }
+
+  const braced = text.match(/[{[][\s\S]*[}\]]/);
+  if (braced) {
+    candidates.push(braced[0]);
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // 다음 후보 시도
+    }
+  }
+
+  throw new Error('이전 결과에서 JSON을 찾을 수 없습니다.');
+}
+
+/**
+ * 간단한 JSON 경로 조회
+ * @example
+ * getJsonPathValue({ a: { b: [1, 2] } }, '$.a.b[1]') // 2
+ * getJsonPathValue({ a: { b: [1, 2] } }, 'a.b.0') // 1
+ */
+export function getJsonPathValue(value: unknown, path: string): unknown {
+  const segments = path
+    .trim()
+    .replace(/^\$\.?/, '')
+    .replace(/\[(\w+)\]/g, '.$1')
+    .split('.')
+    .filter(Boolean);
+
+  let current: unknown = value;
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
@@ -0,0 +1,111 @@
+/**
+ * 에이전트 출력 검증용 JSON Schema 부분 구현
+ * type, properties, required, additionalProperties, items, enum, 길이/범위 제약만 지원한다.
+ */
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  description?: string;
+}
+
+type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+function getType(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = getType(value);
+  // integer는 number에도 해당
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * 스키마 검증
+ * @returns 오류 메시지 목록 (비어 있으면 통과)
+ *
+ * @example
+ * validateJsonSchema({ score: '7' }, { type: 'object', properties: { score: { type: 'number' } } })
+ * // ['$.score: number 타입이어야 합니다 (string)']
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${path}: ${types.join(' | ')} 타입이어야 합니다 (${getType(value)})`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: ${schema.enum.map((option) => JSON.stringify(option)).join(', ')} 중 하나여야 합니다`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: ${schema.minimum} 이상이어야 합니다`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: ${schema.maximum} 이하여야 합니다`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: 최소 ${schema.minLength}자여야 합니다`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: 최대 ${schema.maxLength}자여야 합니다`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: 최소 ${schema.minItems}개 항목이 필요합니다`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: 최대 ${schema.maxItems}개 항목까지 가능합니다`);
+    }
+    if (schema.items) {
+      value.forEach((element, i) => errors.push(...validateJsonSchema(element, schema.items!, `${path}[${i}]`)));
+    }
+  }
+
+  if (getType(value) === 'object') {
+    const object = value as Record<string, unknown>;
+
+    for (const key of schema.required || []) {
+      if (!(key in object)) {
+        errors.push(`${path}.${key}: 필수 항목이 없습니다`);
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateJsonSchema(propertyValue, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: 허용되지 않은 항목입니다`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(propertyValue, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,102 @@
+/**
+ * Map 노드 입력 분할 유틸리티
+ * 이전 결과를 JSON 배열 / 줄 목록 / CSV 행 단위 항목으로 나눈다.
+ */
+
+import type { MapSplitMode } from '../types';
+import { parseJsonFromText } from './json';
+
+// 항목 텍스트와 (JSON 배열 / CSV 헤더 모드일 때) 구조화된 값
+export interface MapItem {
+  text: string;
+  data?: unknown;
+}
+
+/**
+ * CSV 텍스트를 행 배열로 파싱 (큰따옴표로 감싼 필드, "" 이스케이프 지원)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * 이전 결과를 항목 목록으로 분할
+ * - json: 배열의 각 요소 (이전 노드가 구조화된 배열 data를 넘기면 그대로 사용)
+ * - lines: 비어 있지 않은 줄, 목록 기호(-, *, 1.)는 제거
+ * - csv: 행 단위, csvHeader면 첫 행을 키로 쓰는 객체
+ */
+export function splitItems(text: string, mode: MapSplitMode, csvHeader = true, data?: unknown): MapItem[] {
+  switch (mode) {
+    case 'json': {
+      const value = Array.isArray(data) ? data : parseJsonFromText(text);
+      if (!Array.isArray(value)) {
+        throw new Error('이전 결과가 JSON 배열이 아닙니다.');
+      }
+      return value.map((item) => ({
+        text: typeof item === 'string' ? item : JSON.stringify(item),
+        data: item,
+      }));
+    }
+
+    case 'csv': {
+      const rows = parseCsv(text.trim());
+      if (!csvHeader) {
+        return rows.map((row) => ({ text: row.join(', ') }));
+      }
+      const [header, ...body] = rows;
+      return body.map((row) => {
+        const record = Object.fromEntries((header || []).map((key, i) => [key.trim(), row[i] ?? '']));
+        return { text: JSON.stringify(record), data: record };
+      });
+    }
+
+    case 'lines':
+    default:
+      return text
+        .split(/\r?\n/)
+        .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim())
+        .filter(Boolean)
+        .map((line) => ({ text: line }));
+  }
+}
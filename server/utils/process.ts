@@ -0,0 +1,38 @@
+import { spawn, type ChildProcess } from 'child_process';
+import { isWindows } from './platform';
+
+// SIGTERM 후 이 시간 안에 종료되지 않으면 SIGKILL
+const KILL_GRACE_MS = 5000;
+
+/**
+ * 자식 프로세스와 그 하위 프로세스(프로세스 그룹)를 종료
+ * Unix에서는 detached로 실행해 프로세스 그룹을 만든 프로세스여야 하위 프로세스까지 종료된다.
+ */
+export function killProcessTree(proc: ChildProcess): void {
+  if (proc.pid === undefined || proc.exitCode !== null) {
+    return;
+  }
+
+  if (isWindows()) {
+    spawn('taskkill', ['/pid', String(proc.pid), '/T', '/F'], { stdio: 'ignore' });
+    return;
+  }
+
+  const pid = proc.pid;
+  const sendSignal = (sig: NodeJS.Signals) => {
+    try {
+      // 음수 pid = 프로세스 그룹 전체
+      process.kill(-pid, sig);
+    } catch {
+      proc.kill(sig);
+    }
+  };
+
+  sendSignal('SIGTERM');
+  const forceTimer = setTimeout(() => {
+    if (proc.exitCode === null && proc.signalCode === null) {
+      sendSignal('SIGKILL');
+    }
+  }, KILL_GRACE_MS);
+  forceTimer.unref();
+}
@@ -0,0 +1,172 @@
+/**
+ * claude CLI --output-format stream-json 출력 파싱
+ * 한 줄에 JSON 이벤트 하나: system(init) → assistant / user 메시지 반복 → result
+ */
+import { usageFromCliResult } from './usage';
+import type { ToolCallRecord, UsageStats } from '../types';
+
+export interface StreamContentBlock {
+  type: string; // 'text' | 'tool_use' | 'tool_result' | 'thinking' ...
+  text?: string;
+  [key: string]: unknown;
+}
+
+export interface StreamJsonEvent {
+  type: string; // 'system' | 'assistant' | 'user' | 'result'
+  subtype?: string;
+  message?: {
+    content?: StreamContentBlock[] | string;
+    [key: string]: unknown;
+  };
+  result?: string; // type === 'result'일 때 최종 응답 텍스트
+  is_error?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * 청크 단위로 들어오는 stdout을 줄 단위로 잘라 전달
+ */
+export function createLineSplitter(onLine: (line: string) => void) {
+  let buffer = '';
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) onLine(line);
+      }
+    },
+    flush() {
+      if (buffer.trim()) onLine(buffer);
+      buffer = '';
+    },
+  };
+}
+
+/**
+ * 한 줄을 이벤트로 해석 - JSON 이벤트가 아니면 null
+ */
+export function parseStreamLine(line: string): StreamJsonEvent | null {
+  try {
+    const parsed = JSON.parse(line);
+    return parsed && typeof parsed === 'object' && typeof parsed.type === 'string' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function contentBlocks(event: StreamJsonEvent): StreamContentBlock[] {
+  const content = event.message?.content;
+  return Array.isArray(content) ? content : [];
+}
+
+/**
+ * assistant 메시지의 tool_use 블록 (도구 호출 시작)
+ */
+export function extractToolUses(event: StreamJsonEvent): Array<{ id: string; name: string; input: unknown }> {
+  if (event.type !== 'assistant') return [];
+  return contentBlocks(event)
+    .filter((block) => block.type === 'tool_use' && typeof block.id === 'string')
+    .map((block) => ({ id: block.id as string, name: String(block.name ?? 'unknown'), input: block.input }));
+}
+
+/**
+ * user 메시지의 tool_result 블록 (도구 호출 결과) - content는 문자열 또는 텍스트 블록 배열
+ */
+export function extractToolResults(event: StreamJsonEvent): Array<{ toolUseId: string; output: string; isError: boolean }> {
+  if (event.type !== 'user') return [];
+  return contentBlocks(event)
+    .filter((block) => block.type === 'tool_result' && typeof block.tool_use_id === 'string')
+    .map((block) => {
+      const { content } = block;
+      const output = typeof content === 'string'
+        ? content
+        : Array.isArray(content)
+          ? content.map((part) => (typeof part?.text === 'string' ? part.text : '')).join('\n')
+          : '';
+      return { toolUseId: block.tool_use_id as string, output, isError: block.is_error === true };
+    });
+}
+
+/**
+ * assistant 메시지의 텍스트 블록만 이어 붙임
+ */
+export function extractAssistantText(event: StreamJsonEvent): string {
+  if (event.type !== 'assistant' || !event.message) return '';
+
+  const { content } = event.message;
+  if (typeof content === 'string') return content;
+  return (content || [])
+    .filter((block) => block.type === 'text' && block.text)
+    .map((block) => block.text)
+    .join('');
+}
+
+// 도구 결과는 타임라인 표시용으로 앞부분만 보관
+const TOOL_OUTPUT_LIMIT = 2000;
+
+/**
+ * 이벤트를 받아 응답 텍스트, 도구 호출, 최종 결과와 사용량을 모음
+ * CLI(stream-json 줄)와 Agent SDK(query() 메시지)가 같은 이벤트 형태를 쓰므로 두 백엔드가 공유
+ */
+export function createStreamCollector(onOutput?: (text: string) => void, startedAt = Date.now()) {
+  let text = ''; // 지금까지 받은 assistant 텍스트
+  let finalResult: string | undefined; // result 이벤트의 최종 응답
+  let resultError = false;
+  let usage: UsageStats | undefined;
+  const toolCalls: ToolCallRecord[] = [];
+
+  // 메시지 사이는 빈 줄로 구분 - 수신 측은 받은 조각을 그대로 이어 붙이면 됨
+  const appendText = (chunk: string) => {
+    if (!chunk) return;
+    const piece = text && !text.endsWith('\n') ? `\n\n${chunk}` : chunk;
+    text += piece;
+    onOutput?.(piece);
+  };
+
+  return {
+    handleEvent(event: StreamJsonEvent) {
+      if (event.type === 'assistant') {
+        appendText(extractAssistantText(event));
+        for (const { id, name, input } of extractToolUses(event)) {
+          toolCalls.push({ id, name, input, startedAt: new Date().toISOString() });
+        }
+      } else if (event.type === 'user') {
+        for (const { toolUseId, output, isError } of extractToolResults(event)) {
+          const call = toolCalls.find((c) => c.id === toolUseId);
+          if (!call) continue;
+          call.finishedAt = new Date().toISOString();
+          call.durationMs = Date.parse(call.finishedAt) - Date.parse(call.startedAt);
+          call.output = output.length > TOOL_OUTPUT_LIMIT ? `${output.slice(0, TOOL_OUTPUT_LIMIT)}...` : output;
+          call.isError = isError || undefined;
+        }
+      } else if (event.type === 'result') {
+        finalResult = typeof event.result === 'string' ? event.result : undefined;
+        resultError = event.is_error === true;
+        usage = usageFromCliResult(event, Date.now() - startedAt);
+      }
+    },
+
+    // stream-json이 아닌 출력은 일반 텍스트 줄로 취급
+    handleRawLine(line: string) {
+      text += `${line}\n`;
+      onOutput?.(`${line}\n`);
+    },
+
+    get output(): string {
+      return finalResult ?? text;
+    },
+    get hasResult(): boolean {
+      return usage !== undefined;
+    },
+    get resultError(): boolean {
+      return resultError;
+    },
+    get usage(): UsageStats | undefined {
+      return usage;
+    },
+    toolCalls,
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * 프롬프트 템플릿 변수 치환
+ * {{inputs.<라벨>}}, {{nodes.<라벨>.result}}, {{nodes.<라벨>.data.<경로>}}, {{run.<필드>}} 형식을 지원한다.
+ * 노드는 라벨 또는 ID로 찾고, 알 수 없는 변수는 그대로 두고 목록으로 돌려준다.
+ */
+
+import { getJsonPathValue } from './json';
+
+export const TEMPLATE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export interface TemplateNodeValue {
+  id: string;
+  label: string;
+  result?: string;
+  data?: unknown;
+  executed: boolean; // false면 변수는 유효하지만 아직 결과가 없음
+}
+
+export interface TemplateContext {
+  inputs: Array<{ id: string; label: string; value: string }>;
+  nodes: TemplateNodeValue[];
+  run: Record<string, string>;
+}
+
+export interface TemplateResolution {
+  text: string;
+  unknown: string[]; // 존재하지 않는 입력/노드/필드를 가리키는 변수
+  pending: string[]; // 아직 실행되지 않은 노드를 가리키는 변수 (빈 문자열로 치환)
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+/**
+ * 변수 하나를 값으로 변환 - 알 수 없으면 undefined, 아직 결과가 없으면 null
+ */
+function lookupVariable(variable: string, context: TemplateContext): string | null | undefined {
+  const [scope, ...rest] = variable.split('.');
+
+  if (scope === 'inputs') {
+    const key = rest.join('.');
+    const input = context.inputs.find((i) => i.label === key || i.id === key);
+    return input ? input.value : undefined;
+  }
+
+  if (scope === 'run') {
+    const key = rest.join('.');
+    return key in context.run ? context.run[key] : undefined;
+  }
+
+  if (scope === 'nodes') {
+    // 라벨에 점이 없다고 가정하고 result/data 앞까지를 노드 이름으로 본다
+    const fieldIndex = rest.findIndex((part) => part === 'result' || part === 'data');
+    if (fieldIndex <= 0) return undefined;
+
+    const key = rest.slice(0, fieldIndex).join('.');
+    const node = context.nodes.find((n) => n.label === key || n.id === key);
+    if (!node) return undefined;
+
+    const field = rest[fieldIndex];
+    const path = rest.slice(fieldIndex + 1);
+    if (field === 'result' && path.length > 0) return undefined;
+    if (!node.executed) return null;
+
+    if (field === 'result') return node.result ?? '';
+    return stringify(path.length > 0 ? getJsonPathValue(node.data, path.join('.')) : node.data);
+  }
+
+  return undefined;
+}
+
+export function resolveTemplate(text: string, context: TemplateContext): TemplateResolution {
+  const unknown: string[] = [];
+  const pending: string[] = [];
+
+  const resolved = text.replace(TEMPLATE_PATTERN, (match, variable: string) => {
+    const value = lookupVariable(variable, context);
+    if (value === undefined) {
+      unknown.push(variable);
+      return match;
+    }
+    if (value === null) {
+      pending.push(variable);
+      return '';
+    }
+    return value;
+  });
+
+  return { text: resolved, unknown, pending };
+}
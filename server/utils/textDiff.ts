@@ -0,0 +1,127 @@
+/**
+ * 줄 단위 unified diff 생성 (git diff와 같은 형식)
+ */
+
+// 이보다 긴 파일은 LCS 계산 비용이 커서 전체 교체로 표시
+const MAX_LCS_CELLS = 4_000_000;
+const CONTEXT_LINES = 3;
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * 최장 공통 부분열로 줄 단위 편집 목록 계산
+ */
+function diffLines(before: string[], after: string[]): DiffOp[] {
+  // 앞뒤 공통 줄은 LCS 계산에서 제외
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+  const middle: DiffOp[] = [];
+
+  if ((a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+    a.forEach((line) => middle.push({ type: '-', line }));
+    b.forEach((line) => middle.push({ type: '+', line }));
+  } else {
+    // lengths[i][j] = a[i..], b[j..]의 LCS 길이
+    const lengths: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        middle.push({ type: ' ', line: a[i] });
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        middle.push({ type: '-', line: a[i++] });
+      } else {
+        middle.push({ type: '+', line: b[j++] });
+      }
+    }
+    while (i < a.length) middle.push({ type: '-', line: a[i++] });
+    while (j < b.length) middle.push({ type: '+', line: b[j++] });
+  }
+
+  return [
+    ...before.slice(0, start).map((line) => ({ type: ' ' as const, line })),
+    ...middle,
+    ...before.slice(endBefore).map((line) => ({ type: ' ' as const, line })),
+  ];
+}
+
+/**
+ * 파일 하나의 unified diff - 추가된 파일은 before = null, 삭제된 파일은 after = null
+ * 변경이 없으면 빈 문자열
+ */
+export function createUnifiedDiff(path: string, before: string | null, after: string | null): string {
+  const ops = diffLines(splitLines(before ?? ''), splitLines(after ?? ''));
+  if (!ops.some((op) => op.type !== ' ')) return '';
+
+  const header = [
+    `--- ${before === null ? '/dev/null' : `a/${path}`}`,
+    `+++ ${after === null ? '/dev/null' : `b/${path}`}`,
+  ];
+
+  // 변경 줄 주변 CONTEXT_LINES줄씩 묶어 hunk 생성
+  const hunks: string[] = [];
+  let index = 0;
+  let beforeLine = 1;
+  let afterLine = 1;
+
+  while (index < ops.length) {
+    if (ops[index].type === ' ') {
+      beforeLine++;
+      afterLine++;
+      index++;
+      continue;
+    }
+
+    const contextStart = Math.max(0, index - CONTEXT_LINES);
+    const hunkBeforeStart = beforeLine - (index - contextStart);
+    const hunkAfterStart = afterLine - (index - contextStart);
+    let end = index;
+    let unchangedRun = 0;
+    while (end < ops.length && unchangedRun <= CONTEXT_LINES * 2) {
+      unchangedRun = ops[end].type === ' ' ? unchangedRun + 1 : 0;
+      end++;
+    }
+    // 끝의 문맥 줄은 CONTEXT_LINES개만 남김
+    const hunkEnd = Math.min(ops.length, end - Math.max(0, unchangedRun - CONTEXT_LINES));
+    const hunkOps = ops.slice(contextStart, hunkEnd);
+
+    const beforeCount = hunkOps.filter((op) => op.type !== '+').length;
+    const afterCount = hunkOps.filter((op) => op.type !== '-').length;
+    hunks.push(
+      `@@ -${beforeCount === 0 ? hunkBeforeStart - 1 : hunkBeforeStart},${beforeCount} ` +
+        `+${afterCount === 0 ? hunkAfterStart - 1 : hunkAfterStart},${afterCount} @@`,
+      ...hunkOps.map((op) => `${op.type}${op.line}`)
+    );
+
+    for (let k = index; k < hunkEnd; k++) {
+      if (ops[k].type !== '+') beforeLine++;
+      if (ops[k].type !== '-') afterLine++;
+    }
+    index = hunkEnd;
+  }
+
+  return [...header, ...hunks].join('\n') + '\n';
+}
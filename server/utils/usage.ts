@@ -0,0 +1,94 @@
+import type { UsageStats } from '../types';
+
+// 모델별 단가 (USD / 1M 토큰) - SDK 호출은 응답에 비용이 없어 직접 계산
+const MODEL_PRICING: Array<{ match: string; input: number; output: number }> = [
+  { match: 'opus', input: 15, output: 75 },
+  { match: 'sonnet', input: 3, output: 15 },
+  { match: 'haiku', input: 0.8, output: 4 },
+];
+
+// 캐시 읽기는 입력 단가의 10%, 캐시 쓰기는 125%
+const CACHE_READ_RATE = 0.1;
+const CACHE_WRITE_RATE = 1.25;
+
+export function emptyUsage(): UsageStats {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0, costUsd: 0, durationMs: 0 };
+}
+
+/**
+ * 사용량 합계 - undefined는 건너뛰고, 모두 없으면 undefined
+ */
+export function sumUsage(list: Array<UsageStats | undefined>): UsageStats | undefined {
+  const present = list.filter((u): u is UsageStats => !!u);
+  if (present.length === 0) return undefined;
+
+  return present.reduce((total, u) => ({
+    inputTokens: total.inputTokens + u.inputTokens,
+    outputTokens: total.outputTokens + u.outputTokens,
+    cacheReadTokens: total.cacheReadTokens + u.cacheReadTokens,
+    cacheCreationTokens: total.cacheCreationTokens + u.cacheCreationTokens,
+    costUsd: total.costUsd + u.costUsd,
+    durationMs: total.durationMs + u.durationMs,
+  }), emptyUsage());
+}
+
+function toNumber(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * stream-json의 result 이벤트에서 사용량 추출
+ * { total_cost_usd, duration_ms, usage: { input_tokens, output_tokens, cache_read_input_tokens, ... } }
+ */
+export function usageFromCliResult(event: Record<string, unknown>, fallbackDurationMs: number): UsageStats {
+  const usage = (event.usage && typeof event.usage === 'object' ? event.usage : {}) as Record<string, unknown>;
+
+  return {
+    inputTokens: toNumber(usage.input_tokens),
+    outputTokens: toNumber(usage.output_tokens),
+    cacheReadTokens: toNumber(usage.cache_read_input_tokens),
+    cacheCreationTokens: toNumber(usage.cache_creation_input_tokens),
+    costUsd: toNumber(event.total_cost_usd ?? event.cost_usd),
+    durationMs: toNumber(event.duration_ms) || fallbackDurationMs,
+  };
+}
+
+/**
+ * Anthropic SDK 응답의 usage로 사용량 계산 - 단가를 모르는 모델은 비용 0
+ * 프록시 응답 등에 usage가 없거나 일부만 있으면 빠진 값은 0
+ */
+export function usageFromSdkResponse(
+  model: string | undefined,
+  usage:
+    | {
+        input_tokens?: number | null;
+        output_tokens?: number | null;
+        cache_read_input_tokens?: number | null;
+        cache_creation_input_tokens?: number | null;
+      }
+    | null
+    | undefined,
+  durationMs: number
+): UsageStats {
+  const pricing = MODEL_PRICING.find((p) => model?.includes(p.match));
+  const inputTokens = toNumber(usage?.input_tokens);
+  const outputTokens = toNumber(usage?.output_tokens);
+  const cacheReadTokens = toNumber(usage?.cache_read_input_tokens);
+  const cacheCreationTokens = toNumber(usage?.cache_creation_input_tokens);
+
+  const costUsd = pricing
+    ? (inputTokens * pricing.input
+      + outputTokens * pricing.output
+      + cacheReadTokens * pricing.input * CACHE_READ_RATE
+      + cacheCreationTokens * pricing.input * CACHE_WRITE_RATE) / 1_000_000
+    : 0;
+
+  return {
+    inputTokens,
+    outputTokens,
+    cacheReadTokens,
+    cacheCreationTokens,
+    costUsd,
+    durationMs,
+  };
+}
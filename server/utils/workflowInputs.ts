@@ -0,0 +1,21 @@
+import type { ExecutionNode } from '../types';
+
+/**
+ * 이름 또는 ID별 입력값 → 입력 노드 ID별 값
+ * 노드 ID가 먼저, 없으면 입력 노드 이름(label)으로 찾고, 해당하는 입력 노드가 없으면 Error
+ */
+export function resolveInputs(nodes: ExecutionNode[], values: Record<string, string>): Record<string, string> {
+  const inputNodes = nodes.filter((n) => n.type === 'input');
+  const inputs: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(values)) {
+    const node = inputNodes.find((n) => n.id === name) ?? inputNodes.find((n) => n.data.label === name);
+    if (!node) {
+      const available = inputNodes.map((n) => n.data.label).join(', ') || '없음';
+      throw new Error(`입력 노드 "${name}"이(가) 없습니다. (입력 노드: ${available})`);
+    }
+    inputs[node.id] = String(value);
+  }
+
+  return inputs;
+}
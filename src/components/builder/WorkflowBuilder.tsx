@@ -13,6 +13,8 @@ import { usePanelStore } from '../../stores/panelStore';
 import { useWorkflowStore } from '../../stores/workflowStore';
 import { useProjectStore } from '../../stores/projectStore';
 import { loadClaudeConfig } from '../../services/configLoader';
+import { useWorkflowAutoSave } from '../../hooks/useWorkflowAutoSave';
+import { useRunSubscription } from '../../hooks/useRunSubscription';
 
 export default function WorkflowBuilder() {
   const navigate = useNavigate();
@@ -26,6 +28,9 @@ export default function WorkflowBuilder() {
   const hadProject = useRef(false);
   const projectRestoredRef = useRef(false);
 
+  useWorkflowAutoSave();
+  useRunSubscription();
+
   // Restore project from URL on page refresh
   useEffect(() => {
     if (!projectName || projectRestoredRef.current) return;
@@ -22,6 +22,10 @@ import InputNode from '../nodes/InputNode';
 import AgentNode from '../nodes/AgentNode';
 import SkillNode from '../nodes/SkillNode';
 import HookNode from '../nodes/HookNode';
+import ConditionNode from '../nodes/ConditionNode';
+import MapNode from '../nodes/MapNode';
+import ReduceNode from '../nodes/ReduceNode';
+import ApprovalNode from '../nodes/ApprovalNode';
 import OutputNode from '../nodes/OutputNode';
 import { useWorkflowStore } from '../../stores/workflowStore';
 import { usePanelStore } from '../../stores/panelStore';
@@ -30,6 +34,7 @@ import { useProjectStore } from '../../stores/projectStore';
 import { validateConnection } from '../../utils/connectionValidator';
 import { syncEdge, removeEdge as removeEdgeSync, deleteNode } from '../../services/syncService';
 import type { WorkflowNode, WorkflowEdge, SkillNodeData } from '../../types/nodes';
+import { FLOW_ONLY_NODE_TYPES } from '../../types/nodes';
 import type { GallerySkill } from '../../types/project';
 
 const nodeTypes: NodeTypes = {
@@ -37,6 +42,10 @@ const nodeTypes: NodeTypes = {
   agent: AgentNode,
   skill: SkillNode,
   hook: HookNode,
+  condition: ConditionNode,
+  map: MapNode,
+  reduce: ReduceNode,
+  approval: ApprovalNode,
   output: OutputNode,
 };
 
@@ -171,13 +180,13 @@ export default function FlowCanvas() {
       if (deleteChanges.length > 0) {
         const nodesToDelete = deleteChanges
           .map(c => nodes.find(n => n.id === c.id))
-          .filter((n): n is WorkflowNode => n !== undefined && n.type !== 'input' && n.type !== 'output');
+          .filter((n): n is WorkflowNode => n !== undefined && !FLOW_ONLY_NODE_TYPES.includes(n.type));
 
         if (nodesToDelete.length > 0) {
           // Show confirmation dialog
           setPendingDeletion({ changes: deleteChanges, nodesToDelete });
         } else {
-          // input/output nodes can be deleted without confirmation
+          // flow-only nodes (input/output/...) have no files - delete without confirmation
           setNodes(applyNodeChanges(deleteChanges, nodes as Node[]) as typeof nodes);
         }
       }
@@ -233,10 +242,15 @@ export default function FlowCanvas() {
         return;
       }
 
+      // 조건 노드는 핸들별로 엣지를 구분 (true / false)
       const newEdge: WorkflowEdge = {
-        id: `e-${params.source}-${params.target}`,
+        id: params.sourceHandle
+          ? `e-${params.source}-${params.sourceHandle}-${params.target}`
+          : `e-${params.source}-${params.target}`,
         source: params.source!,
         target: params.target!,
+        sourceHandle: params.sourceHandle,
+        label: params.sourceHandle ?? undefined,
         animated: true,
       };
 
@@ -373,6 +387,13 @@ export default function FlowCanvas() {
                 return '#06b6d4';
               case 'hook':
                 return '#ec4899';
+              case 'condition':
+                return '#f97316';
+              case 'map':
+              case 'reduce':
+                return '#0ea5e9';
+              case 'approval':
+                return '#f59e0b';
               case 'output':
                 return '#10b981';
               default:
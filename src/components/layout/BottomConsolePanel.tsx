@@ -1,7 +1,9 @@
 import { useState, useRef, useEffect } from 'react';
-import { Terminal, ChevronDown, ChevronUp, Trash2, Info, AlertTriangle, XCircle, CheckCircle } from 'lucide-react';
+import { Terminal, ChevronDown, ChevronUp, Trash2, Info, AlertTriangle, XCircle, CheckCircle, UserCheck } from 'lucide-react';
 import { useExecutionStore } from '../../stores/executionStore';
+import { socketService, type ApprovalRequestEvent, type ApprovalResponse } from '../../services/socketService';
 import clsx from 'clsx';
+import LiveOutput from '../panels/LiveOutput';
 
 interface BottomConsolePanelProps {
   className?: string;
@@ -30,8 +32,57 @@ function LogIcon({ level }: { level: string }) {
   }
 }
 
+// 승인 노드의 검토 요청 - 내용을 수정하면 수정본으로 승인
+function ApprovalCard({ request }: { request: ApprovalRequestEvent }) {
+  const removePendingApproval = useExecutionStore((state) => state.removePendingApproval);
+  const [text, setText] = useState(request.content);
+  const edited = text !== request.content;
+
+  const respond = (action: ApprovalResponse['action']) => {
+    socketService.respondApproval({
+      approvalId: request.approvalId,
+      action,
+      text: action === 'edit' ? text : undefined,
+    });
+    removePendingApproval(request.approvalId);
+  };
+
+  return (
+    <div className="p-3 rounded-lg border border-amber-500/40 bg-amber-500/5 space-y-2">
+      <div className="flex items-center gap-2">
+        <UserCheck className="w-4 h-4 text-amber-400" />
+        <span className="text-sm font-medium text-white">{request.label}</span>
+        <span className="text-xs text-amber-400">승인 대기 중</span>
+      </div>
+      {request.instructions && (
+        <p className="text-xs text-gray-400">{request.instructions}</p>
+      )}
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={5}
+        className="w-full px-2 py-1.5 bg-surface border border-border rounded text-xs font-mono text-gray-200 focus:outline-none focus:ring-1 focus:ring-amber-500 resize-y"
+      />
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={() => respond('reject')}
+          className="px-3 py-1 text-xs font-medium rounded bg-red-500/10 text-red-400 hover:bg-red-500/20 transition-colors"
+        >
+          Reject
+        </button>
+        <button
+          onClick={() => respond(edited ? 'edit' : 'approve')}
+          className="px-3 py-1 text-xs font-medium rounded bg-green-500/20 text-green-400 hover:bg-green-500/30 transition-colors"
+        >
+          {edited ? 'Approve with edits' : 'Approve'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
 export default function BottomConsolePanel({ className = '' }: BottomConsolePanelProps) {
-  const { logs, clearLogs, isRunning } = useExecutionStore();
+  const { logs, clearLogs, isRunning, pendingApprovals } = useExecutionStore();
   const [isExpanded, setIsExpanded] = useState(true);
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -58,6 +109,11 @@ export default function BottomConsolePanel({ className = '' }: BottomConsolePane
               Running
             </span>
           )}
+          {pendingApprovals.length > 0 && (
+            <span className="px-1.5 py-0.5 text-xs bg-amber-500/20 text-amber-400 rounded">
+              {pendingApprovals.length} approval{pendingApprovals.length > 1 ? 's' : ''}
+            </span>
+          )}
           {logs.length > 0 && (
             <span className="px-1.5 py-0.5 text-xs bg-gray-700 text-gray-400 rounded">
               {logs.length}
@@ -81,6 +137,18 @@ export default function BottomConsolePanel({ className = '' }: BottomConsolePane
         )}
       </div>
 
+      {/* Pending approvals */}
+      {isExpanded && pendingApprovals.length > 0 && (
+        <div className="max-h-72 overflow-y-auto p-2 space-y-2 border-b border-border">
+          {pendingApprovals.map((request) => (
+            <ApprovalCard key={request.approvalId} request={request} />
+          ))}
+        </div>
+      )}
+
+      {/* Streaming CLI output */}
+      {isExpanded && isRunning && <LiveOutput className="p-2 border-b border-border" maxHeightClass="max-h-32" />}
+
       {/* Log content */}
       {isExpanded && (
         <div
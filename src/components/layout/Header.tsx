@@ -1,6 +1,6 @@
 import { useState, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Settings, Save, Download, Play, Trash2, RefreshCw, Home, Plus } from 'lucide-react';
+import { Settings, Save, Download, Play, Square, Trash2, RefreshCw, RotateCcw, Home, Plus } from 'lucide-react';
 import { useWorkflowStore } from '../../stores/workflowStore';
 import { useProjectStore } from '../../stores/projectStore';
 import { useWorkflowExecution } from '../../hooks/useWorkflowExecution';
@@ -9,13 +9,14 @@ import { loadClaudeConfig } from '../../services/configLoader';
 import SaveDialog from '../dialogs/SaveDialog';
 import SettingsDialog from '../dialogs/SettingsDialog';
 import GalleryModal from '../modals/GalleryModal';
+import UsageIndicator from './UsageIndicator';
 import type { ClaudeConfigExport } from '../../types/save';
 
 export default function Header() {
   const navigate = useNavigate();
   const { workflowName, setWorkflowName, isDraft, nodes, edges, clearWorkflow, mergeExistingConfig } = useWorkflowStore();
   const { makeccHome, navigateToPath, setCurrentProject } = useProjectStore();
-  const { isRunning, execute } = useWorkflowExecution();
+  const { isRunning, execute, resume, canResume, cancel } = useWorkflowExecution();
   const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
   const [isSettingsDialogOpen, setIsSettingsDialogOpen] = useState(false);
   const [isGalleryOpen, setIsGalleryOpen] = useState(false);
@@ -102,6 +103,8 @@ export default function Header() {
 
       {/* Right section */}
       <div className="flex items-center gap-2">
+        <UsageIndicator />
+
         <button
           onClick={() => setIsGalleryOpen(true)}
           className="flex items-center gap-2 px-3 py-2 bg-cyan-500/20 hover:bg-cyan-500/30 text-cyan-400 rounded-lg transition-colors"
@@ -128,6 +131,28 @@ export default function Header() {
           {isRunning ? 'Running...' : 'Run'}
         </button>
 
+        {canResume && (
+          <button
+            onClick={resume}
+            className="flex items-center gap-2 px-3 py-2 bg-amber-500/20 hover:bg-amber-500/30 text-amber-400 rounded-lg transition-colors"
+            title="실패한 노드부터 다시 실행"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span className="text-sm font-medium">Resume</span>
+          </button>
+        )}
+
+        {isRunning && (
+          <button
+            onClick={cancel}
+            className="flex items-center gap-2 px-3 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-lg transition-colors"
+            title="실행 취소"
+          >
+            <Square className="w-4 h-4" />
+            <span className="text-sm font-medium">Stop</span>
+          </button>
+        )}
+
         <button
           onClick={handleExport}
           className="flex items-center gap-2 px-3 py-2 bg-surface-hover hover:bg-border rounded-lg transition-colors"
@@ -1,11 +1,11 @@
-import { MessageSquare, Sparkles, BarChart3, Zap, Anchor } from 'lucide-react';
+import { MessageSquare, Sparkles, BarChart3, Zap, Anchor, GitBranch, Split, Merge, UserCheck } from 'lucide-react';
 import { useWorkflowStore } from '../../stores/workflowStore';
 import { nanoid } from 'nanoid';
 import { syncNode } from '../../services/syncService';
-import type { WorkflowNode, InputNodeData, AgentNodeData, SkillNodeData, HookNodeData, OutputNodeData } from '../../types/nodes';
+import type { WorkflowNode, InputNodeData, AgentNodeData, SkillNodeData, HookNodeData, ConditionNodeData, MapNodeData, ReduceNodeData, ApprovalNodeData, OutputNodeData } from '../../types/nodes';
 
 interface PaletteItem {
-  type: 'input' | 'agent' | 'skill' | 'hook' | 'output';
+  type: 'input' | 'agent' | 'skill' | 'hook' | 'condition' | 'map' | 'reduce' | 'approval' | 'output';
   label: string;
   icon: React.ReactNode;
   color: string;
@@ -41,6 +41,34 @@ const paletteItems: PaletteItem[] = [
     color: 'text-pink-400',
     hoverColor: 'hover:bg-pink-500/10',
   },
+  {
+    type: 'condition',
+    label: 'Condition',
+    icon: <GitBranch className="w-4 h-4" />,
+    color: 'text-orange-400',
+    hoverColor: 'hover:bg-orange-500/10',
+  },
+  {
+    type: 'map',
+    label: 'Map',
+    icon: <Split className="w-4 h-4" />,
+    color: 'text-sky-400',
+    hoverColor: 'hover:bg-sky-500/10',
+  },
+  {
+    type: 'reduce',
+    label: 'Reduce',
+    icon: <Merge className="w-4 h-4" />,
+    color: 'text-sky-400',
+    hoverColor: 'hover:bg-sky-500/10',
+  },
+  {
+    type: 'approval',
+    label: 'Approval',
+    icon: <UserCheck className="w-4 h-4" />,
+    color: 'text-amber-400',
+    hoverColor: 'hover:bg-amber-500/10',
+  },
   {
     type: 'output',
     label: 'Output',
@@ -108,6 +136,54 @@ function createDefaultNodeData(type: PaletteItem['type']): WorkflowNode {
           usedInputs: [],
         } as HookNodeData,
       };
+    case 'condition':
+      return {
+        id,
+        type: 'condition',
+        position,
+        data: {
+          label: 'Condition',
+          description: 'Branch on the previous result...',
+          ruleType: 'contains',
+          pattern: '',
+          status: 'idle',
+        } as ConditionNodeData,
+      };
+    case 'map':
+      return {
+        id,
+        type: 'map',
+        position,
+        data: {
+          label: 'Map',
+          description: 'Run the next steps once per item...',
+          splitMode: 'lines',
+          status: 'idle',
+        } as MapNodeData,
+      };
+    case 'reduce':
+      return {
+        id,
+        type: 'reduce',
+        position,
+        data: {
+          label: 'Reduce',
+          description: 'Gather the per-item results...',
+          outputFormat: 'markdown',
+          status: 'idle',
+        } as ReduceNodeData,
+      };
+    case 'approval':
+      return {
+        id,
+        type: 'approval',
+        position,
+        data: {
+          label: 'Approval',
+          description: 'Wait for a person to review...',
+          status: 'idle',
+        } as ApprovalNodeData,
+      };
     case 'output':
       return {
         id,
@@ -1,10 +1,11 @@
 import { useState, useEffect, useRef } from 'react';
-import { FolderOpen, Settings2 } from 'lucide-react';
+import { FolderOpen, Settings2, History } from 'lucide-react';
 import { useWorkflowStore, selectSelectedNode } from '../../stores/workflowStore';
 import FileExplorer from './FileExplorer';
 import PropertiesPanel from '../panels/PropertiesPanel';
+import RunHistoryPanel from '../panels/RunHistoryPanel';
 
-type TabType = 'explorer' | 'properties';
+type TabType = 'explorer' | 'properties' | 'history';
 
 interface RightSidebarProps {
   showProperties?: boolean;
@@ -64,6 +65,17 @@ export default function RightSidebar({ showProperties = true }: RightSidebarProp
           <Settings2 className="w-4 h-4" />
           Properties
         </button>
+        <button
+          onClick={() => setActiveTab('history')}
+          className={`flex-1 flex items-center justify-center gap-2 px-3 py-2.5 text-xs font-medium uppercase tracking-wider transition-colors ${
+            activeTab === 'history'
+              ? 'text-white border-b-2 border-amber-500 bg-surface-hover'
+              : 'text-gray-500 hover:text-gray-300 hover:bg-surface-hover'
+          }`}
+        >
+          <History className="w-4 h-4" />
+          History
+        </button>
       </div>
 
       {/* Tab Content - Keep both mounted, hide inactive with CSS */}
@@ -74,6 +86,9 @@ export default function RightSidebar({ showProperties = true }: RightSidebarProp
         <div className={`h-full overflow-y-auto ${activeTab === 'properties' ? '' : 'hidden'}`}>
           <PropertiesPanel node={selectedNode} />
         </div>
+        <div className={`h-full ${activeTab === 'history' ? '' : 'hidden'}`}>
+          <RunHistoryPanel />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { Coins } from 'lucide-react';
+import { useExecutionStore } from '../../stores/executionStore';
+import { socketService, type UsageSummary } from '../../services/socketService';
+import { fetchUsageSummary } from '../../services/usageService';
+import { describeUsage, formatCost, formatUsage } from '../../utils/usageFormat';
+
+/**
+ * 마지막 실행의 토큰/비용과 AI 생성 사용량 표시
+ */
+export default function UsageIndicator() {
+  const runUsage = useExecutionStore((state) => state.runUsage);
+  const [aiUsage, setAiUsage] = useState<UsageSummary | null>(null);
+
+  useEffect(() => {
+    fetchUsageSummary()
+      .then(setAiUsage)
+      .catch((error) => console.error('Failed to fetch usage:', error));
+
+    const handleUsageUpdated = (summary: UsageSummary) => setAiUsage(summary);
+    socketService.on<UsageSummary>('usage:updated', handleUsageUpdated);
+    return () => socketService.off('usage:updated', handleUsageUpdated);
+  }, []);
+
+  const aiTotal = aiUsage?.total;
+  if (!runUsage && !aiTotal) return null;
+
+  const title = [
+    runUsage ? `마지막 실행\n${describeUsage(runUsage)}` : '',
+    aiTotal ? `AI 생성 (서버 시작 이후)\n${describeUsage(aiTotal)}` : '',
+  ].filter(Boolean).join('\n\n');
+
+  return (
+    <div
+      className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs text-gray-400 bg-surface-hover rounded-lg"
+      title={title}
+    >
+      <Coins className="w-3.5 h-3.5 text-amber-400" />
+      {runUsage && <span>{formatUsage(runUsage)}</span>}
+      {aiTotal && (
+        <span className={runUsage ? 'pl-1.5 border-l border-border' : ''}>AI {formatCost(aiTotal.costUsd)}</span>
+      )}
+    </div>
+  );
+}
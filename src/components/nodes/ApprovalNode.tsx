@@ -0,0 +1,36 @@
+import { memo } from 'react';
+import { UserCheck } from 'lucide-react';
+import BaseNode from './BaseNode';
+import type { ApprovalNodeData } from '../../types/nodes';
+
+interface ApprovalNodeProps {
+  data: ApprovalNodeData;
+  selected: boolean;
+}
+
+function ApprovalNode({ data, selected }: ApprovalNodeProps) {
+  return (
+    <BaseNode
+      data={data}
+      selected={selected}
+      headerIcon={<UserCheck className="w-4 h-4 text-amber-100" />}
+      headerColor="bg-gradient-to-br from-amber-500 to-yellow-700"
+      showTargetHandle={true}
+      showSourceHandle={true}
+    >
+      {data.status === 'waiting' ? (
+        <span className="inline-block px-2 py-0.5 text-xs bg-amber-900/50 text-amber-300 rounded animate-pulse">
+          Waiting for approval
+        </span>
+      ) : data.status === 'completed' && data.rejected ? (
+        <span className="inline-block px-2 py-0.5 text-xs bg-red-500/20 text-red-400 rounded">Rejected</span>
+      ) : (
+        data.instructions && (
+          <div className="text-xs text-gray-500 line-clamp-2">{data.instructions}</div>
+        )
+      )}
+    </BaseNode>
+  );
+}
+
+export default memo(ApprovalNode);
@@ -1,6 +1,6 @@
 import { memo, type ReactNode } from 'react';
 import { Handle, Position } from '@xyflow/react';
-import { Play, AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
+import { Play, AlertCircle, CheckCircle2, Loader2, Ban, Timer, SkipForward, Hand } from 'lucide-react';
 import type { NodeStatus } from '../../types/nodes';
 import clsx from 'clsx';
 
@@ -12,6 +12,9 @@ interface BaseNodeProps {
     progress?: number;
     error?: string;
     usedInputs?: string[];
+    attempt?: number;
+    maxAttempts?: number;
+    errorKind?: string;
     [key: string]: unknown;
   };
   selected?: boolean;
@@ -22,14 +25,22 @@ interface BaseNodeProps {
   showTargetHandle?: boolean;
 }
 
-function StatusIcon({ status }: { status: NodeStatus }) {
+function StatusIcon({ status, errorKind }: { status: NodeStatus; errorKind?: string }) {
   switch (status) {
     case 'running':
       return <Loader2 className="w-4 h-4 animate-spin text-blue-400" />;
+    case 'waiting':
+      return <Hand className="w-4 h-4 text-amber-400" />;
     case 'completed':
       return <CheckCircle2 className="w-4 h-4 text-green-400" />;
     case 'error':
-      return <AlertCircle className="w-4 h-4 text-red-400" />;
+      return errorKind === 'timeout'
+        ? <Timer className="w-4 h-4 text-orange-400" />
+        : <AlertCircle className="w-4 h-4 text-red-400" />;
+    case 'cancelled':
+      return <Ban className="w-4 h-4 text-gray-400" />;
+    case 'skipped':
+      return <SkipForward className="w-4 h-4 text-gray-500" />;
     default:
       return <Play className="w-4 h-4" />;
   }
@@ -49,10 +60,16 @@ function BaseNode({
     switch (data.status) {
       case 'running':
         return 'border-indigo-500 animate-pulse-border';
+      case 'waiting':
+        return 'border-amber-500';
       case 'completed':
         return 'border-green-500';
       case 'error':
-        return 'border-red-500';
+        return data.errorKind === 'timeout' ? 'border-orange-500' : 'border-red-500';
+      case 'cancelled':
+        return 'border-gray-500 border-dashed';
+      case 'skipped':
+        return 'border-gray-700 border-dashed opacity-50';
       default:
         return '';
     }
@@ -76,7 +93,15 @@ function BaseNode({
           <span className="font-semibold text-sm text-white">{data.label}</span>
         </div>
         <div className="flex items-center gap-1">
-          <StatusIcon status={data.status} />
+          {data.attempt !== undefined && (data.maxAttempts ?? 1) > 1 && data.status !== 'idle' && (
+            <span
+              className="px-1.5 py-0.5 text-[10px] font-medium bg-black/30 text-white rounded"
+              title="시도 횟수"
+            >
+              {data.attempt}/{data.maxAttempts}
+            </span>
+          )}
+          <StatusIcon status={data.status} errorKind={data.errorKind} />
         </div>
       </div>
 
@@ -0,0 +1,65 @@
+import { memo } from 'react';
+import { Handle, Position } from '@xyflow/react';
+import { GitBranch } from 'lucide-react';
+import clsx from 'clsx';
+import BaseNode from './BaseNode';
+import type { ConditionNodeData } from '../../types/nodes';
+
+interface ConditionNodeProps {
+  data: ConditionNodeData;
+  selected: boolean;
+}
+
+const RULE_LABELS: Record<ConditionNodeData['ruleType'], string> = {
+  regex: 'Regex',
+  contains: 'Contains',
+  jsonPath: 'JSON Path',
+  llm: 'LLM Yes/No',
+};
+
+function getRuleSummary(data: ConditionNodeData): string | undefined {
+  switch (data.ruleType) {
+    case 'regex':
+    case 'contains':
+      return data.pattern;
+    case 'jsonPath':
+      return data.jsonPath && `${data.jsonPath} ${data.operator || 'equals'} ${data.operator === 'exists' ? '' : data.value ?? ''}`;
+    case 'llm':
+      return data.question;
+  }
+}
+
+function ConditionNode({ data, selected }: ConditionNodeProps) {
+  const summary = getRuleSummary(data);
+  // 실행이 끝난 뒤에만 선택된 분기를 강조
+  const branch = data.status === 'completed' ? data.branch : undefined;
+
+  return (
+    <BaseNode
+      data={data}
+      selected={selected}
+      headerIcon={<GitBranch className="w-4 h-4 text-orange-100" />}
+      headerColor="bg-gradient-to-br from-orange-500 to-amber-700"
+      showTargetHandle={true}
+      showSourceHandle={false}
+    >
+      <div className="space-y-2">
+        <span className="inline-block px-2 py-0.5 text-xs bg-orange-900/50 text-orange-300 rounded">
+          {RULE_LABELS[data.ruleType]}
+        </span>
+        {summary && (
+          <div className="text-xs text-gray-500 truncate">{summary}</div>
+        )}
+        <div className="flex flex-col items-end gap-1 text-xs">
+          <span className={clsx(branch === 'true' ? 'text-green-400 font-medium' : 'text-gray-500')}>true</span>
+          <span className={clsx(branch === 'false' ? 'text-red-400 font-medium' : 'text-gray-500')}>false</span>
+        </div>
+      </div>
+
+      <Handle type="source" position={Position.Right} id="true" style={{ top: '65%' }} />
+      <Handle type="source" position={Position.Right} id="false" style={{ top: '82%' }} />
+    </BaseNode>
+  );
+}
+
+export default memo(ConditionNode);
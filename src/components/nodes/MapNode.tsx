@@ -0,0 +1,41 @@
+import { memo } from 'react';
+import { Split } from 'lucide-react';
+import BaseNode from './BaseNode';
+import type { MapNodeData } from '../../types/nodes';
+
+interface MapNodeProps {
+  data: MapNodeData;
+  selected: boolean;
+}
+
+const SPLIT_LABELS: Record<MapNodeData['splitMode'], string> = {
+  json: 'JSON array',
+  lines: 'Lines',
+  csv: 'CSV rows',
+};
+
+function MapNode({ data, selected }: MapNodeProps) {
+  return (
+    <BaseNode
+      data={data}
+      selected={selected}
+      headerIcon={<Split className="w-4 h-4 text-sky-100" />}
+      headerColor="bg-gradient-to-br from-sky-500 to-blue-700"
+      showTargetHandle={true}
+      showSourceHandle={true}
+    >
+      <div className="space-y-2">
+        <span className="inline-block px-2 py-0.5 text-xs bg-sky-900/50 text-sky-300 rounded">
+          {SPLIT_LABELS[data.splitMode]}
+        </span>
+        {data.maxConcurrency && (
+          <div className="text-xs text-gray-500">
+            Concurrency: {data.maxConcurrency}
+          </div>
+        )}
+      </div>
+    </BaseNode>
+  );
+}
+
+export default memo(MapNode);
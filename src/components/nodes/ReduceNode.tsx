@@ -0,0 +1,28 @@
+import { memo } from 'react';
+import { Merge } from 'lucide-react';
+import BaseNode from './BaseNode';
+import type { ReduceNodeData } from '../../types/nodes';
+
+interface ReduceNodeProps {
+  data: ReduceNodeData;
+  selected: boolean;
+}
+
+function ReduceNode({ data, selected }: ReduceNodeProps) {
+  return (
+    <BaseNode
+      data={data}
+      selected={selected}
+      headerIcon={<Merge className="w-4 h-4 text-sky-100" />}
+      headerColor="bg-gradient-to-br from-blue-700 to-sky-500"
+      showTargetHandle={true}
+      showSourceHandle={true}
+    >
+      <span className="inline-block px-2 py-0.5 text-xs bg-sky-900/50 text-sky-300 rounded">
+        {data.outputFormat === 'json' ? 'JSON array' : 'Markdown'}
+      </span>
+    </BaseNode>
+  );
+}
+
+export default memo(ReduceNode);
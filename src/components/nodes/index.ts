@@ -2,5 +2,9 @@ export { default as InputNode } from './InputNode';
 export { default as AgentNode } from './AgentNode';
 export { default as SkillNode } from './SkillNode';
 export { default as HookNode } from './HookNode';
+export { default as ConditionNode } from './ConditionNode';
+export { default as MapNode } from './MapNode';
+export { default as ReduceNode } from './ReduceNode';
+export { default as ApprovalNode } from './ApprovalNode';
 export { default as OutputNode } from './OutputNode';
 export { default as BaseNode } from './BaseNode';
@@ -3,6 +3,7 @@ import { Trash2, Info, AlertTriangle, XCircle, CheckCircle, Terminal, X, Minimiz
 import { useExecutionStore } from '../../stores/executionStore';
 import type { LogLevel } from '../../types/workflow';
 import clsx from 'clsx';
+import LiveOutput from './LiveOutput';
 
 interface FloatingConsolePanelProps {
   isOpen: boolean;
@@ -192,6 +193,7 @@ export function FloatingConsolePanel({ isOpen, onClose }: FloatingConsolePanelPr
               <div ref={logsEndRef} />
             </div>
           )}
+          <LiveOutput className="mt-2" />
         </div>
       )}
     </div>
@@ -286,6 +288,7 @@ export default function ConsolePanel() {
             <div ref={logsEndRef} />
           </div>
         )}
+        <LiveOutput className="mt-2" maxHeightClass="max-h-64" />
       </div>
     </div>
   );
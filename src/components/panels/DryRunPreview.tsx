@@ -0,0 +1,105 @@
+import { ScanEye, X, Terminal, Info } from 'lucide-react';
+import { useExecutionStore } from '../../stores/executionStore';
+import type { DryRunNodePlan } from '../../services/socketService';
+
+function formatTimeout(ms?: number): string {
+  if (!ms) return '-';
+  return ms % 60000 === 0 ? `${ms / 60000}분` : `${Math.round(ms / 1000)}초`;
+}
+
+function PlanSetting({ label, value }: { label: string; value?: string }) {
+  if (!value) return null;
+  return (
+    <div className="flex gap-2 text-xs">
+      <span className="w-20 shrink-0 text-gray-500">{label}</span>
+      <span className="text-gray-300 font-mono break-all">{value}</span>
+    </div>
+  );
+}
+
+function DryRunNode({ plan, index }: { plan: DryRunNodePlan; index: number }) {
+  return (
+    <div className="p-3 rounded-lg border border-border bg-surface space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-gray-500 w-5">{index + 1}</span>
+        <h5 className="text-sm font-medium text-white flex-1 truncate">{plan.label}</h5>
+        <span className="px-1.5 py-0.5 text-xs bg-surface-hover text-gray-400 rounded">{plan.type}</span>
+        {plan.prompt && (
+          <span title="claude 실행">
+            <Terminal className="w-3.5 h-3.5 text-amber-400" />
+          </span>
+        )}
+      </div>
+
+      {plan.prompt && (
+        <div className="space-y-1">
+          <PlanSetting label="백엔드" value={plan.backend} />
+          <PlanSetting label="작업 디렉토리" value={plan.workingDirectory} />
+          <PlanSetting label="타임아웃" value={formatTimeout(plan.timeoutMs)} />
+          <PlanSetting label="모델" value={plan.model} />
+          <PlanSetting label="도구" value={plan.tools?.length ? plan.tools.join(', ') : undefined} />
+          <PlanSetting label="권한 모드" value={plan.permissionMode} />
+          <PlanSetting label="시스템 프롬프트" value={plan.systemPrompt} />
+          <PlanSetting
+            label="재시도"
+            value={plan.retry && plan.retry.maxAttempts > 1 ? `최대 ${plan.retry.maxAttempts}회` : undefined}
+          />
+          <PlanSetting label="출력 스키마" value={plan.outputSchema ? '있음 (JSON 검증)' : undefined} />
+        </div>
+      )}
+
+      {plan.notes.length > 0 && (
+        <ul className="space-y-0.5">
+          {plan.notes.map((note, i) => (
+            <li key={i} className="flex items-start gap-1.5 text-xs text-yellow-400/90">
+              <Info className="w-3 h-3 mt-0.5 shrink-0" />
+              {note}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {plan.prompt && (
+        <details>
+          <summary className="text-xs text-gray-400 cursor-pointer hover:text-gray-300">프롬프트 보기</summary>
+          <pre className="mt-2 p-2 bg-black/30 rounded max-h-72 overflow-auto text-xs text-gray-300 font-mono whitespace-pre-wrap break-words">
+            {plan.prompt}
+          </pre>
+        </details>
+      )}
+    </div>
+  );
+}
+
+/**
+ * 드라이런 결과 - 실행 순서대로 노드별 프롬프트와 실행 설정
+ */
+export default function DryRunPreview() {
+  const { dryRun, setDryRun } = useExecutionStore();
+
+  if (!dryRun) return null;
+
+  const cliCount = dryRun.nodes.filter((n) => n.prompt).length;
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <ScanEye className="w-4 h-4 text-amber-400" />
+        <h4 className="text-sm font-medium text-white flex-1">
+          드라이런 <span className="text-gray-500 font-normal">· claude 실행 {cliCount}/{dryRun.nodes.length}개 노드</span>
+        </h4>
+        <button
+          onClick={() => setDryRun(null)}
+          className="p-1 text-gray-500 hover:text-white rounded transition-colors"
+          title="닫기"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">이전 단계 결과는 자리표시자로 표시됩니다.</p>
+      {dryRun.nodes.map((plan, index) => (
+        <DryRunNode key={plan.nodeId} plan={plan} index={index} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useEffect, useRef } from 'react';
+import { Radio } from 'lucide-react';
+import { useExecutionStore } from '../../stores/executionStore';
+import { useWorkflowStore } from '../../stores/workflowStore';
+
+// 긴 응답은 마지막 부분만 표시
+const MAX_VISIBLE_CHARS = 4000;
+
+interface LiveOutputProps {
+  className?: string;
+  maxHeightClass?: string;
+}
+
+function StreamingNode({ label, text, maxHeightClass }: { label: string; text: string; maxHeightClass: string }) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // 새 텍스트가 오면 맨 아래로 스크롤
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [text]);
+
+  return (
+    <div className="rounded border border-blue-500/30 bg-blue-500/5">
+      <div className="flex items-center gap-1.5 px-2 py-1 border-b border-blue-500/20 text-xs text-blue-300">
+        <Radio className="w-3 h-3 animate-pulse" />
+        {label}
+      </div>
+      <div
+        ref={scrollRef}
+        className={`${maxHeightClass} overflow-y-auto px-2 py-1.5 font-mono text-xs text-gray-300 whitespace-pre-wrap break-words`}
+      >
+        {text.length > MAX_VISIBLE_CHARS ? `...${text.slice(-MAX_VISIBLE_CHARS)}` : text}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 실행 중인 노드의 CLI 응답을 도착하는 대로 표시 (node:output 이벤트)
+ */
+export default function LiveOutput({ className = '', maxHeightClass = 'max-h-40' }: LiveOutputProps) {
+  const { nodeOutputs, runningNodes } = useExecutionStore();
+  const nodes = useWorkflowStore((state) => state.nodes);
+
+  const streaming = [...runningNodes].filter((nodeId) => nodeOutputs[nodeId]);
+  if (streaming.length === 0) return null;
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {streaming.map((nodeId) => (
+        <StreamingNode
+          key={nodeId}
+          label={nodes.find((n) => n.id === nodeId)?.data.label || nodeId}
+          text={nodeOutputs[nodeId]}
+          maxHeightClass={maxHeightClass}
+        />
+      ))}
+    </div>
+  );
+}
@@ -9,6 +9,8 @@ import {
   Image,
   CheckCircle,
   XCircle,
+  SkipForward,
+  ScanEye,
 } from 'lucide-react';
 import { useExecutionStore } from '../../stores/executionStore';
 import { useWorkflowStore, selectSelectedNode } from '../../stores/workflowStore';
@@ -16,12 +18,24 @@ import { useWorkflowExecution } from '../../hooks/useWorkflowExecution';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import type { InputNodeData } from '../../types/nodes';
+import LiveOutput from './LiveOutput';
+import DryRunPreview from './DryRunPreview';
+import WorkspaceChanges from './WorkspaceChanges';
+import { describeUsage, formatUsage } from '../../utils/usageFormat';
+import type { GeneratedFile } from '../../services/socketService';
+
+// 작업 디렉토리 파일 변경 종류 표시
+const FILE_CHANGE_BADGES: Record<NonNullable<GeneratedFile['change']>, { label: string; className: string }> = {
+  created: { label: '생성', className: 'bg-green-500/20 text-green-300' },
+  modified: { label: '수정', className: 'bg-amber-500/20 text-amber-300' },
+  deleted: { label: '삭제', className: 'bg-red-500/20 text-red-300' },
+};
 
 export default function PreviewPanel() {
-  const { isRunning, results, workflowResults, logs } = useExecutionStore();
+  const { isRunning, results, workflowResults, logs, dryRun: dryRunResult } = useExecutionStore();
   const { nodes, selectedNodeId, updateNode } = useWorkflowStore();
   const selectedNode = useWorkflowStore(selectSelectedNode);
-  const { execute, savedOutputDir } = useWorkflowExecution();
+  const { execute, dryRun, savedOutputDir } = useWorkflowExecution();
 
   // Local state for input value during editing
   const [inputValue, setInputValue] = useState('');
@@ -80,8 +94,12 @@ export default function PreviewPanel() {
                       ? 'bg-green-500'
                       : node.data.status === 'running'
                       ? 'bg-blue-500 animate-pulse'
+                      : node.data.status === 'waiting'
+                      ? 'bg-amber-500 animate-pulse'
                       : node.data.status === 'error'
                       ? 'bg-red-500'
+                      : node.data.status === 'cancelled' || node.data.status === 'skipped'
+                      ? 'bg-gray-700'
                       : 'bg-gray-500'
                   }`}
                 />
@@ -92,19 +110,31 @@ export default function PreviewPanel() {
               </div>
             ))}
           </div>
+          <LiveOutput className="mt-3" maxHeightClass="max-h-64" />
         </div>
       )}
 
       {/* Run Button - Always visible */}
       <div className="p-4 border-b border-border">
-        <button
-          onClick={handleTestRun}
-          disabled={isRunning || nodes.length === 0}
-          className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-amber-600 hover:bg-amber-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
-        >
-          <Play className="w-4 h-4" />
-          {isRunning ? 'Running...' : 'Run Workflow'}
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={handleTestRun}
+            disabled={isRunning || nodes.length === 0}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-amber-600 hover:bg-amber-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+          >
+            <Play className="w-4 h-4" />
+            {isRunning ? 'Running...' : 'Run Workflow'}
+          </button>
+          <button
+            onClick={dryRun}
+            disabled={isRunning || nodes.length === 0}
+            className="flex items-center justify-center gap-2 px-3 py-3 bg-surface-hover hover:bg-border disabled:opacity-50 disabled:cursor-not-allowed text-gray-300 rounded-lg font-medium transition-colors"
+            title="claude를 실행하지 않고 노드별 프롬프트 확인"
+          >
+            <ScanEye className="w-4 h-4" />
+            Dry Run
+          </button>
+        </div>
         {nodes.length === 0 && (
           <p className="text-xs text-gray-500 text-center mt-2">노드를 추가해주세요</p>
         )}
@@ -188,6 +218,12 @@ export default function PreviewPanel() {
           </div>
         )}
 
+        {/* Isolated workspace changes */}
+        <WorkspaceChanges />
+
+        {/* Dry Run Preview */}
+        <DryRunPreview />
+
         {/* Workflow Results Display */}
         {workflowResults.length > 0 ? (
           <div className="space-y-4">
@@ -196,7 +232,7 @@ export default function PreviewPanel() {
               <div
                 key={result.nodeId}
                 className={`p-4 rounded-lg border ${
-                  result.success
+                  result.success || result.skipped
                     ? 'bg-surface border-border'
                     : 'bg-red-900/20 border-red-700'
                 }`}
@@ -205,10 +241,32 @@ export default function PreviewPanel() {
                 <div className="flex items-center gap-2 mb-3">
                   {result.success ? (
                     <CheckCircle className="w-5 h-5 text-green-500" />
+                  ) : result.skipped ? (
+                    <SkipForward className="w-5 h-5 text-gray-500" />
                   ) : (
                     <XCircle className="w-5 h-5 text-red-500" />
                   )}
                   <h5 className="text-sm font-medium text-white">{result.label}</h5>
+                  {result.rejected && (
+                    <span className="px-1.5 py-0.5 text-xs bg-red-500/20 text-red-400 rounded">
+                      Rejected
+                    </span>
+                  )}
+                  {result.skipped && (
+                    <span className="px-1.5 py-0.5 text-xs bg-gray-500/20 text-gray-400 rounded">
+                      Skipped
+                    </span>
+                  )}
+                  {result.errorKind === 'timeout' && (
+                    <span className="px-1.5 py-0.5 text-xs bg-orange-500/20 text-orange-400 rounded">
+                      Timeout
+                    </span>
+                  )}
+                  {result.usage && (
+                    <span className="ml-auto text-xs text-gray-500" title={describeUsage(result.usage)}>
+                      {formatUsage(result.usage)}
+                    </span>
+                  )}
                 </div>
 
                 {/* Error Message */}
@@ -219,7 +277,7 @@ export default function PreviewPanel() {
                 {/* Generated Files */}
                 {result.files && result.files.length > 0 && (
                   <div className="space-y-2 mb-3">
-                    <p className="text-xs text-gray-400">생성된 파일:</p>
+                    <p className="text-xs text-gray-400">파일:</p>
                     {result.files.map((file, idx) => (
                       <div
                         key={idx}
@@ -234,6 +292,11 @@ export default function PreviewPanel() {
                           <p className="text-sm text-white truncate">{file.name}</p>
                           <p className="text-xs text-gray-500 truncate">{file.path}</p>
                         </div>
+                        {file.change && (
+                          <span className={`px-1.5 py-0.5 text-xs rounded ${FILE_CHANGE_BADGES[file.change].className}`}>
+                            {FILE_CHANGE_BADGES[file.change].label}
+                          </span>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -256,6 +319,18 @@ export default function PreviewPanel() {
                     </div>
                   </details>
                 )}
+
+                {/* Structured Data (collapsible) */}
+                {result.data !== undefined && (
+                  <details className="group">
+                    <summary className="text-xs text-gray-400 cursor-pointer hover:text-gray-300">
+                      구조화된 데이터
+                    </summary>
+                    <pre className="mt-2 p-2 bg-black/30 rounded max-h-64 overflow-auto text-xs text-gray-300 font-mono">
+                      {JSON.stringify(result.data, null, 2)}
+                    </pre>
+                  </details>
+                )}
               </div>
             ))}
           </div>
@@ -265,7 +340,7 @@ export default function PreviewPanel() {
               {typeof lastResult === 'string' ? lastResult : JSON.stringify(lastResult, null, 2)}
             </ReactMarkdown>
           </div>
-        ) : logs.length > 0 ? (
+        ) : dryRunResult ? null : logs.length > 0 ? (
           // Show logs when running
           <div className="space-y-2">
             <h4 className="text-sm font-medium text-white mb-3">실행 로그</h4>
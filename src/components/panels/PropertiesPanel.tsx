@@ -1,15 +1,19 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { Trash2, Sparkles, MessageSquare, Zap, Anchor, BarChart3, Settings2, FileCode, ChevronDown, ChevronRight, Loader2, Play, CheckCircle, XCircle, Wand2, ExternalLink } from 'lucide-react';
+import { Trash2, Sparkles, MessageSquare, Zap, Anchor, BarChart3, Settings2, FileCode, ChevronDown, ChevronRight, Loader2, Play, CheckCircle, XCircle, Wand2, ExternalLink, GitBranch, Split, Merge, UserCheck } from 'lucide-react';
 import { useWorkflowStore } from '../../stores/workflowStore';
 import { useProjectStore } from '../../stores/projectStore';
 import { useExecutionStore } from '../../stores/executionStore';
 import { useSettingsStore } from '../../stores/settingsStore';
 import { syncNode, deleteNode } from '../../services/syncService';
-import type { WorkflowNode, AgentNodeData, InputNodeData, SkillNodeData, HookNodeData } from '../../types/nodes';
-import { AVAILABLE_TOOLS } from '../../types/nodes';
+import type { WorkflowNode, AgentNodeData, InputNodeData, SkillNodeData, HookNodeData, ConditionNodeData, ConditionRuleType, ConditionOperator, MapNodeData, MapSplitMode, ReduceNodeData, ApprovalNodeData, RetryPolicy, RetryCondition, ExecutionBackendId, PermissionMode } from '../../types/nodes';
+import { AVAILABLE_TOOLS, FLOW_ONLY_NODE_TYPES } from '../../types/nodes';
 import { AVAILABLE_SKILLS } from '../../data/availableSkills';
+import type { WorkflowSettings, IsolationMode } from '../../types/workflow';
 import AIGenerateModal, { type GeneratedContent } from '../modals/AIGenerateModal';
 import CredentialsSetupModal from '../modals/CredentialsSetupModal';
+import TemplateTextarea from './TemplateTextarea';
+import ToolCallTimeline from './ToolCallTimeline';
+import WorkflowSchedules from './WorkflowSchedules';
 
 const NODE_TYPE_NAMES: Record<string, string> = {
   agent: '에이전트',
@@ -38,6 +42,14 @@ function getNodeIcon(type: string | undefined) {
       return <Zap className="w-5 h-5 text-cyan-400" />;
     case 'hook':
       return <Anchor className="w-5 h-5 text-pink-400" />;
+    case 'condition':
+      return <GitBranch className="w-5 h-5 text-orange-400" />;
+    case 'map':
+      return <Split className="w-5 h-5 text-sky-400" />;
+    case 'reduce':
+      return <Merge className="w-5 h-5 text-sky-400" />;
+    case 'approval':
+      return <UserCheck className="w-5 h-5 text-amber-400" />;
     case 'output':
       return <BarChart3 className="w-5 h-5 text-emerald-400" />;
     default:
@@ -55,6 +67,14 @@ function getNodeTypeName(type: string | undefined) {
       return 'Skill';
     case 'hook':
       return 'Hook';
+    case 'condition':
+      return 'Condition';
+    case 'map':
+      return 'Map';
+    case 'reduce':
+      return 'Reduce';
+    case 'approval':
+      return 'Approval';
     case 'output':
       return 'Output';
     default:
@@ -63,7 +83,7 @@ function getNodeTypeName(type: string | undefined) {
 }
 
 export default function PropertiesPanel({ node }: PropertiesPanelProps) {
-  const { updateNode, removeNode, nodes } = useWorkflowStore();
+  const { updateNode, removeNode, nodes, settings, updateSettings } = useWorkflowStore();
   const { currentProject } = useProjectStore();
   const { addLog } = useExecutionStore();
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -228,16 +248,22 @@ export default function PropertiesPanel({ node }: PropertiesPanelProps) {
 
   if (!node) {
     return (
-      <div className="flex flex-col items-center justify-center h-full text-gray-500 p-8">
-        <Settings2 className="w-12 h-12 mb-4 opacity-50" />
-        <p className="text-center">Select a node to configure its settings</p>
+      <div className="flex flex-col h-full">
+        <div className="flex-1 flex flex-col items-center justify-center text-gray-500 p-8">
+          <Settings2 className="w-12 h-12 mb-4 opacity-50" />
+          <p className="text-center">Select a node to configure its settings</p>
+        </div>
+        <div className="p-4 border-t border-border space-y-4 max-h-[60%] overflow-y-auto">
+          <WorkflowSettingsSection settings={settings} onUpdate={updateSettings} />
+          <WorkflowSchedules />
+        </div>
       </div>
     );
   }
 
   const handleDeleteClick = () => {
-    // Show confirmation dialog for non-input/output nodes
-    if (node.type !== 'input' && node.type !== 'output') {
+    // Show confirmation dialog for nodes backed by files
+    if (!FLOW_ONLY_NODE_TYPES.includes(node.type)) {
       setShowDeleteConfirm(true);
     } else {
       removeNode(node.id);
@@ -328,13 +354,24 @@ export default function PropertiesPanel({ node }: PropertiesPanelProps) {
           <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
             {node.type === 'agent' ? 'Prompt' : 'Description'}
           </label>
-          <textarea
-            value={node.data.description || ''}
-            onChange={(e) => handleDescriptionChange(e.target.value)}
-            rows={4}
-            placeholder={node.type === 'agent' ? 'Enter instructions for this agent...' : 'Describe what this step does...'}
-            className="w-full px-3 py-2.5 bg-surface border border-border rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent transition-all resize-none"
-          />
+          {node.type === 'agent' || node.type === 'skill' ? (
+            <TemplateTextarea
+              nodeId={node.id}
+              value={node.data.description || ''}
+              onChange={handleDescriptionChange}
+              rows={4}
+              placeholder={node.type === 'agent' ? 'Enter instructions for this agent... ({{ 로 변수 삽입)' : 'Describe what this step does...'}
+              className="w-full px-3 py-2.5 bg-surface border border-border rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent transition-all resize-none"
+            />
+          ) : (
+            <textarea
+              value={node.data.description || ''}
+              onChange={(e) => handleDescriptionChange(e.target.value)}
+              rows={4}
+              placeholder="Describe what this step does..."
+              className="w-full px-3 py-2.5 bg-surface border border-border rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent transition-all resize-none"
+            />
+          )}
         </div>
 
         {/* Type-specific settings */}
@@ -348,6 +385,7 @@ export default function PropertiesPanel({ node }: PropertiesPanelProps) {
         {node.type === 'agent' && (
           <AgentSettings
             data={node.data as AgentNodeData}
+            nodeId={node.id}
             nodeLabel={node.data.label}
             onUpdate={(data) => updateNode(node.id, data)}
           />
@@ -360,6 +398,47 @@ export default function PropertiesPanel({ node }: PropertiesPanelProps) {
           />
         )}
 
+        {node.type === 'skill' && (
+          <div>
+            <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+              Arguments
+            </label>
+            <TemplateTextarea
+              nodeId={node.id}
+              value={(node.data as SkillNodeData).skillArgs || ''}
+              onChange={(skillArgs) => updateNode(node.id, { skillArgs: skillArgs || undefined })}
+              rows={2}
+              placeholder="--topic {{inputs.topic}}"
+              className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-white text-sm font-mono focus:outline-none focus:ring-2 focus:ring-accent resize-none"
+            />
+          </div>
+        )}
+
+        {(node.type === 'agent' || node.type === 'skill') && (
+          <RetrySettings
+            retry={(node.data as AgentNodeData | SkillNodeData).retry}
+            onUpdate={(retry) => updateNode(node.id, { retry })}
+          />
+        )}
+
+        {(node.type === 'agent' || node.type === 'skill') && (
+          <TimeoutSettings
+            timeoutMs={(node.data as AgentNodeData | SkillNodeData).timeoutMs}
+            defaultTimeoutMs={settings.defaultTimeoutMs ?? DEFAULT_TIMEOUT_MS}
+            onUpdate={(timeoutMs) => updateNode(node.id, { timeoutMs })}
+          />
+        )}
+
+        {(node.type === 'agent' ||
+          node.type === 'skill' ||
+          (node.type === 'condition' && (node.data as ConditionNodeData).ruleType === 'llm')) && (
+          <BackendSettings
+            backend={(node.data as AgentNodeData | SkillNodeData | ConditionNodeData).backend}
+            defaultBackend={settings.backend ?? 'cli'}
+            onUpdate={(backend) => updateNode(node.id, { backend })}
+          />
+        )}
+
         {node.type === 'hook' && (
           <HookSettings
             data={node.data as HookNodeData}
@@ -367,11 +446,51 @@ export default function PropertiesPanel({ node }: PropertiesPanelProps) {
           />
         )}
 
+        {node.type === 'condition' && (
+          <ConditionSettings
+            data={node.data as ConditionNodeData}
+            onUpdate={(data) => updateNode(node.id, data)}
+          />
+        )}
+
+        {node.type === 'map' && (
+          <MapSettings
+            data={node.data as MapNodeData}
+            onUpdate={(data) => updateNode(node.id, data)}
+          />
+        )}
+
+        {node.type === 'reduce' && (
+          <ReduceSettings
+            data={node.data as ReduceNodeData}
+            onUpdate={(data) => updateNode(node.id, data)}
+          />
+        )}
+
+        {node.type === 'approval' && (
+          <div>
+            <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+              Reviewer Instructions
+            </label>
+            <textarea
+              value={(node.data as ApprovalNodeData).instructions || ''}
+              onChange={(e) => updateNode(node.id, { instructions: e.target.value })}
+              rows={3}
+              placeholder="e.g., Check the tone before this is published"
+              className="w-full px-3 py-2.5 bg-surface border border-border rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-accent resize-none"
+            />
+            <p className="mt-1 text-xs text-gray-500">실행이 이 단계에서 멈추고 콘솔에서 승인, 수정 또는 거부할 수 있습니다.</p>
+          </div>
+        )}
+
         {node.type === 'output' && (
           <OutputSettings
             onUpdate={(data) => updateNode(node.id, data)}
           />
         )}
+
+        {/* 마지막 실행에서 호출한 도구 */}
+        <ToolCallTimeline nodeId={node.id} />
       </div>
 
       {/* Delete Confirmation Dialog */}
@@ -509,9 +628,11 @@ function InputSettings({
 function AgentSettings({
   data,
   onUpdate,
+  nodeId,
   nodeLabel,
 }: {
   data: AgentNodeData;
+  nodeId: string;
   nodeLabel: string;
   onUpdate: (data: Partial<AgentNodeData>) => void;
 }) {
@@ -619,23 +740,96 @@ function AgentSettings({
         </div>
       </div>
 
+      {/* Permission Mode */}
+      <div>
+        <label className="block text-sm font-medium text-gray-400 mb-2">
+          Permission Mode
+        </label>
+        <select
+          value={data.permissionMode ?? ''}
+          onChange={(e) => onUpdate({ permissionMode: (e.target.value || undefined) as PermissionMode | undefined })}
+          className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-accent"
+        >
+          <option value="">CLI default</option>
+          {PERMISSION_MODE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {data.permissionMode && (
+          <p className="text-xs text-gray-500 mt-1">
+            {PERMISSION_MODE_OPTIONS.find((o) => o.value === data.permissionMode)?.description}
+          </p>
+        )}
+      </div>
+
       {/* System Prompt */}
       <div>
         <label className="block text-sm font-medium text-gray-400 mb-2">
           System Prompt
         </label>
-        <textarea
+        <TemplateTextarea
+          nodeId={nodeId}
           value={data.systemPrompt || ''}
-          onChange={(e) => onUpdate({ systemPrompt: e.target.value })}
+          onChange={(systemPrompt) => onUpdate({ systemPrompt })}
           rows={4}
           placeholder="Enter custom instructions for this agent..."
           className="w-full px-3 py-2 bg-surface-hover border border-border rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-accent resize-none"
         />
       </div>
+
+      {/* Output Schema */}
+      <OutputSchemaSettings
+        outputSchema={data.outputSchema}
+        onUpdate={(outputSchema) => onUpdate({ outputSchema })}
+      />
     </>
   );
 }
 
+// 출력 JSON Schema - 실행 후 검증하고 통과한 JSON을 다음 노드에 구조화된 데이터로 전달
+function OutputSchemaSettings({
+  outputSchema,
+  onUpdate,
+}: {
+  outputSchema: string | undefined;
+  onUpdate: (outputSchema: string | undefined) => void;
+}) {
+  let schemaError: string | null = null;
+  if (outputSchema?.trim()) {
+    try {
+      JSON.parse(outputSchema);
+    } catch (error) {
+      schemaError = error instanceof Error ? error.message : 'Invalid JSON';
+    }
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-400 mb-2">
+        Output Schema (JSON)
+      </label>
+      <textarea
+        value={outputSchema || ''}
+        onChange={(e) => onUpdate(e.target.value || undefined)}
+        rows={5}
+        placeholder='{"type": "object", "required": ["summary"], "properties": {"summary": {"type": "string"}}}'
+        className={`w-full px-3 py-2 bg-surface-hover border rounded-lg text-white text-xs font-mono focus:outline-none focus:ring-2 focus:ring-accent resize-none ${
+          schemaError ? 'border-red-500' : 'border-border'
+        }`}
+      />
+      {schemaError ? (
+        <p className="mt-1 text-xs text-red-400">{schemaError}</p>
+      ) : (
+        <p className="mt-1 text-xs text-gray-500">
+          설정하면 출력을 JSON으로 검증하고 실패 시 재시도 조건 'Invalid output'으로 처리합니다.
+        </p>
+      )}
+    </div>
+  );
+}
+
 // Skill file type
 interface SkillFile {
   name: string;
@@ -1060,6 +1254,497 @@ function HookSettings({
   );
 }
 
+const CONDITION_RULES: Array<{ id: ConditionRuleType; name: string }> = [
+  { id: 'contains', name: 'Contains' },
+  { id: 'regex', name: 'Regex' },
+  { id: 'jsonPath', name: 'JSON Path' },
+  { id: 'llm', name: 'LLM Yes/No' },
+];
+
+const CONDITION_OPERATORS: Array<{ id: ConditionOperator; name: string }> = [
+  { id: 'equals', name: '=' },
+  { id: 'notEquals', name: '≠' },
+  { id: 'greaterThan', name: '>' },
+  { id: 'lessThan', name: '<' },
+  { id: 'exists', name: 'exists' },
+];
+
+// Condition-specific settings
+function ConditionSettings({
+  data,
+  onUpdate,
+}: {
+  data: ConditionNodeData;
+  onUpdate: (data: Partial<ConditionNodeData>) => void;
+}) {
+  const inputClass = 'w-full px-3 py-2.5 bg-surface border border-border rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-accent';
+
+  return (
+    <>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+          Rule
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          {CONDITION_RULES.map((rule) => (
+            <button
+              key={rule.id}
+              onClick={() => onUpdate({ ruleType: rule.id })}
+              className={`px-3 py-2 text-sm rounded-lg border transition-colors ${
+                data.ruleType === rule.id
+                  ? 'bg-accent/20 border-accent text-white'
+                  : 'bg-surface border-border text-gray-400 hover:border-gray-500'
+              }`}
+            >
+              {rule.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {(data.ruleType === 'regex' || data.ruleType === 'contains') && (
+        <div>
+          <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+            {data.ruleType === 'regex' ? 'Pattern' : 'Text'}
+          </label>
+          <input
+            type="text"
+            value={data.pattern || ''}
+            onChange={(e) => onUpdate({ pattern: e.target.value })}
+            placeholder={data.ruleType === 'regex' ? 'e.g., ^APPROVED' : 'e.g., LGTM'}
+            className={inputClass}
+          />
+          <label className="flex items-center gap-2 mt-2 text-xs text-gray-400">
+            <input
+              type="checkbox"
+              checked={!!data.caseSensitive}
+              onChange={(e) => onUpdate({ caseSensitive: e.target.checked })}
+              className="rounded border-gray-600 bg-surface text-accent focus:ring-accent"
+            />
+            Case sensitive
+          </label>
+        </div>
+      )}
+
+      {data.ruleType === 'jsonPath' && (
+        <div className="space-y-2">
+          <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide">
+            JSON Path
+          </label>
+          <input
+            type="text"
+            value={data.jsonPath || ''}
+            onChange={(e) => onUpdate({ jsonPath: e.target.value })}
+            placeholder="e.g., $.review.score"
+            className={inputClass}
+          />
+          <div className="grid grid-cols-[auto_1fr] gap-2">
+            <select
+              value={data.operator || 'equals'}
+              onChange={(e) => onUpdate({ operator: e.target.value as ConditionOperator })}
+              className="px-3 py-2.5 bg-surface border border-border rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-accent"
+            >
+              {CONDITION_OPERATORS.map((op) => (
+                <option key={op.id} value={op.id}>{op.name}</option>
+              ))}
+            </select>
+            {data.operator !== 'exists' && (
+              <input
+                type="text"
+                value={data.value || ''}
+                onChange={(e) => onUpdate({ value: e.target.value })}
+                placeholder="Value"
+                className={inputClass}
+              />
+            )}
+          </div>
+          <p className="text-xs text-gray-500">이전 결과에서 JSON을 찾아 경로의 값을 비교합니다.</p>
+        </div>
+      )}
+
+      {data.ruleType === 'llm' && (
+        <div>
+          <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+            Question
+          </label>
+          <textarea
+            value={data.question || ''}
+            onChange={(e) => onUpdate({ question: e.target.value })}
+            rows={3}
+            placeholder="e.g., Does the draft cite at least three sources?"
+            className={`${inputClass} resize-none`}
+          />
+          <p className="mt-1 text-xs text-gray-500">Claude가 YES로 답하면 true, NO면 false 분기로 진행합니다.</p>
+        </div>
+      )}
+    </>
+  );
+}
+
+const SPLIT_MODES: Array<{ id: MapSplitMode; name: string; description: string }> = [
+  { id: 'lines', name: 'Lines', description: '한 줄이 한 항목 (목록 기호 제거)' },
+  { id: 'json', name: 'JSON array', description: '배열의 각 요소가 한 항목' },
+  { id: 'csv', name: 'CSV rows', description: '한 행이 한 항목' },
+];
+
+// Map-specific settings
+function MapSettings({
+  data,
+  onUpdate,
+}: {
+  data: MapNodeData;
+  onUpdate: (data: Partial<MapNodeData>) => void;
+}) {
+  return (
+    <>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+          Split By
+        </label>
+        <div className="space-y-2">
+          {SPLIT_MODES.map((mode) => (
+            <button
+              key={mode.id}
+              onClick={() => onUpdate({ splitMode: mode.id })}
+              className={`w-full flex items-center justify-between px-3 py-2 text-sm rounded-lg border transition-colors ${
+                data.splitMode === mode.id
+                  ? 'bg-accent/20 border-accent text-white'
+                  : 'bg-surface border-border text-gray-400 hover:border-gray-500'
+              }`}
+            >
+              <span>{mode.name}</span>
+              <span className="text-xs text-gray-500">{mode.description}</span>
+            </button>
+          ))}
+        </div>
+        {data.splitMode === 'csv' && (
+          <label className="flex items-center gap-2 mt-2 text-xs text-gray-400">
+            <input
+              type="checkbox"
+              checked={data.csvHeader ?? true}
+              onChange={(e) => onUpdate({ csvHeader: e.target.checked })}
+              className="rounded border-gray-600 bg-surface text-accent focus:ring-accent"
+            />
+            First row is a header (items become JSON objects)
+          </label>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+          Max Concurrent Items
+        </label>
+        <input
+          type="number"
+          min={1}
+          max={10}
+          value={data.maxConcurrency ?? ''}
+          placeholder="3"
+          onChange={(e) => {
+            const value = Number(e.target.value);
+            onUpdate({ maxConcurrency: value > 0 ? value : undefined });
+          }}
+          className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-accent"
+        />
+        <p className="mt-1 text-xs text-gray-500">Map 뒤의 노드들이 Reduce 노드 전까지 항목마다 실행됩니다.</p>
+      </div>
+    </>
+  );
+}
+
+// Reduce-specific settings
+function ReduceSettings({
+  data,
+  onUpdate,
+}: {
+  data: ReduceNodeData;
+  onUpdate: (data: Partial<ReduceNodeData>) => void;
+}) {
+  const formats = [
+    { id: 'markdown', name: 'Markdown' },
+    { id: 'json', name: 'JSON array' },
+  ] as const;
+
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+        Output Format
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        {formats.map((format) => (
+          <button
+            key={format.id}
+            onClick={() => onUpdate({ outputFormat: format.id })}
+            className={`px-3 py-2 text-sm rounded-lg border transition-colors ${
+              (data.outputFormat || 'markdown') === format.id
+                ? 'bg-accent/20 border-accent text-white'
+                : 'bg-surface border-border text-gray-400 hover:border-gray-500'
+            }`}
+          >
+            {format.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const RETRY_CONDITIONS: Array<{ id: RetryCondition; name: string }> = [
+  { id: 'timeout', name: 'Timeout' },
+  { id: 'exit', name: 'Nonzero exit' },
+  { id: 'spawn', name: 'Spawn error' },
+  { id: 'schema', name: 'Invalid output' },
+];
+
+const DEFAULT_RETRY: RetryPolicy = { maxAttempts: 3, backoffMs: 5000, retryOn: ['timeout', 'exit'] };
+
+// Retry policy settings (agent / skill)
+function RetrySettings({
+  retry,
+  onUpdate,
+}: {
+  retry: RetryPolicy | undefined;
+  onUpdate: (retry: RetryPolicy | undefined) => void;
+}) {
+  return (
+    <div>
+      <label className="flex items-center justify-between mb-2">
+        <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">Retry</span>
+        <input
+          type="checkbox"
+          checked={!!retry}
+          onChange={(e) => onUpdate(e.target.checked ? DEFAULT_RETRY : undefined)}
+          className="rounded border-gray-600 bg-surface text-accent focus:ring-accent"
+        />
+      </label>
+
+      {retry && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Max attempts</p>
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={retry.maxAttempts}
+                onChange={(e) => onUpdate({ ...retry, maxAttempts: Math.max(1, Number(e.target.value) || 1) })}
+                className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-accent"
+              />
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Backoff (ms)</p>
+              <input
+                type="number"
+                min={0}
+                step={1000}
+                value={retry.backoffMs}
+                onChange={(e) => onUpdate({ ...retry, backoffMs: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-accent"
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {RETRY_CONDITIONS.map((condition) => (
+              <label
+                key={condition.id}
+                className="flex items-center gap-2 px-2 py-1.5 bg-surface-hover rounded-lg cursor-pointer hover:bg-border transition-colors"
+              >
+                <input
+                  type="checkbox"
+                  checked={retry.retryOn?.includes(condition.id) ?? false}
+                  onChange={(e) => {
+                    const retryOn = e.target.checked
+                      ? [...(retry.retryOn || []), condition.id]
+                      : (retry.retryOn || []).filter((c) => c !== condition.id);
+                    onUpdate({ ...retry, retryOn });
+                  }}
+                  className="rounded border-gray-600 bg-surface text-accent focus:ring-accent"
+                />
+                <span className="text-xs text-gray-300">{condition.name}</span>
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">조건을 선택하지 않으면 모든 실패에 재시도합니다. 대기 시간은 시도마다 2배로 늘어납니다.</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000; // 서버 기본값과 동일
+
+// Per-node timeout (agent / skill). 비워두면 워크플로우 기본값을 사용
+function TimeoutSettings({
+  timeoutMs,
+  defaultTimeoutMs,
+  onUpdate,
+}: {
+  timeoutMs: number | undefined;
+  defaultTimeoutMs: number;
+  onUpdate: (timeoutMs: number | undefined) => void;
+}) {
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+        Timeout (seconds)
+      </label>
+      <input
+        type="number"
+        min={1}
+        value={timeoutMs ? timeoutMs / 1000 : ''}
+        placeholder={`${defaultTimeoutMs / 1000} (workflow default)`}
+        onChange={(e) => {
+          const seconds = Number(e.target.value);
+          onUpdate(seconds > 0 ? seconds * 1000 : undefined);
+        }}
+        className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-accent"
+      />
+    </div>
+  );
+}
+
+const PERMISSION_MODE_OPTIONS: Array<{ value: PermissionMode; label: string; description: string }> = [
+  { value: 'default', label: 'Default', description: '허용한 도구 외에는 확인이 필요한 도구를 사용할 수 없음' },
+  { value: 'acceptEdits', label: 'Accept edits', description: '파일 수정은 확인 없이 허용' },
+  { value: 'plan', label: 'Plan', description: '파일을 수정하지 않고 계획만 세움' },
+  { value: 'bypassPermissions', label: 'Bypass permissions', description: '모든 도구를 확인 없이 허용 (격리 실행 권장)' },
+];
+
+const BACKEND_OPTIONS: Array<{ value: ExecutionBackendId; label: string; description: string }> = [
+  { value: 'cli', label: 'Claude CLI', description: 'claude 프로세스로 실행 (도구, 스킬, MCP 사용)' },
+  { value: 'sdk', label: 'Agent SDK', description: 'Claude Agent SDK query()로 실행 (도구, 스킬, MCP 사용)' },
+  { value: 'api', label: 'Messages API', description: '도구 없이 API로 응답만 생성 (ANTHROPIC_API_KEY 필요)' },
+];
+
+const ISOLATION_OPTIONS: Array<{ value: IsolationMode; label: string; description: string }> = [
+  { value: 'none', label: '사용 안 함', description: '프로젝트 디렉토리에서 바로 실행' },
+  { value: 'copy', label: '프로젝트 복사본', description: '복사본에서 실행하고 변경 사항을 확인 후 적용 (node_modules, .git 제외)' },
+  { value: 'worktree', label: 'Git worktree', description: 'HEAD 기준 worktree에서 실행 (커밋하지 않은 변경은 포함되지 않음)' },
+];
+
+// Per-node execution backend. 비워두면 워크플로우 기본값을 사용
+function BackendSettings({
+  backend,
+  defaultBackend,
+  onUpdate,
+}: {
+  backend: ExecutionBackendId | undefined;
+  defaultBackend: ExecutionBackendId;
+  onUpdate: (backend: ExecutionBackendId | undefined) => void;
+}) {
+  const defaultLabel = BACKEND_OPTIONS.find((o) => o.value === defaultBackend)?.label;
+  const selected = BACKEND_OPTIONS.find((o) => o.value === backend);
+
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+        Execution Backend
+      </label>
+      <select
+        value={backend ?? ''}
+        onChange={(e) => onUpdate((e.target.value || undefined) as ExecutionBackendId | undefined)}
+        className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-accent"
+      >
+        <option value="">Workflow default ({defaultLabel})</option>
+        {BACKEND_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      {selected && <p className="text-xs text-gray-500 mt-1">{selected.description}</p>}
+    </div>
+  );
+}
+
+// Workflow-level execution settings (노드를 선택하지 않았을 때 표시)
+function WorkflowSettingsSection({
+  settings,
+  onUpdate,
+}: {
+  settings: WorkflowSettings;
+  onUpdate: (settings: Partial<WorkflowSettings>) => void;
+}) {
+  return (
+    <div className="space-y-3">
+      <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wide">Workflow Settings</h4>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <p className="text-xs text-gray-500 mb-1">Default timeout (s)</p>
+          <input
+            type="number"
+            min={1}
+            value={settings.defaultTimeoutMs ? settings.defaultTimeoutMs / 1000 : ''}
+            placeholder={String(DEFAULT_TIMEOUT_MS / 1000)}
+            onChange={(e) => {
+              const seconds = Number(e.target.value);
+              onUpdate({ defaultTimeoutMs: seconds > 0 ? seconds * 1000 : undefined });
+            }}
+            className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-accent"
+          />
+        </div>
+        <div>
+          <p className="text-xs text-gray-500 mb-1">Max concurrency</p>
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={settings.maxConcurrency ?? ''}
+            placeholder="3"
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              onUpdate({ maxConcurrency: value > 0 ? value : undefined });
+            }}
+            className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-accent"
+          />
+        </div>
+        <div className="col-span-2">
+          <p className="text-xs text-gray-500 mb-1">Execution backend</p>
+          <select
+            value={settings.backend ?? 'cli'}
+            onChange={(e) => {
+              const backend = e.target.value as ExecutionBackendId;
+              onUpdate({ backend: backend === 'cli' ? undefined : backend });
+            }}
+            className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-accent"
+          >
+            {BACKEND_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            {BACKEND_OPTIONS.find((o) => o.value === (settings.backend ?? 'cli'))?.description}
+          </p>
+        </div>
+        <div className="col-span-2">
+          <p className="text-xs text-gray-500 mb-1">Isolation</p>
+          <select
+            value={settings.isolation ?? 'none'}
+            onChange={(e) => {
+              const isolation = e.target.value as IsolationMode;
+              onUpdate({ isolation: isolation === 'none' ? undefined : isolation });
+            }}
+            className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-accent"
+          >
+            {ISOLATION_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            {ISOLATION_OPTIONS.find((o) => o.value === (settings.isolation ?? 'none'))?.description}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // Output-specific settings
 function OutputSettings({
   onUpdate,
@@ -0,0 +1,208 @@
+import { useState, useEffect, useCallback } from 'react';
+import { RefreshCw, Trash2, CheckCircle, XCircle, Ban, Loader2, History, RotateCcw, Clock, Terminal, Webhook } from 'lucide-react';
+import { useExecutionStore } from '../../stores/executionStore';
+import { useWorkflowStore } from '../../stores/workflowStore';
+import { fetchRuns, fetchRun, deleteRun, fetchActiveRuns } from '../../services/runService';
+import { socketService } from '../../services/socketService';
+import { formatCost } from '../../utils/usageFormat';
+import type { ActiveRun, RunStatus, RunSummary } from '../../types/run';
+
+function StatusIcon({ status }: { status: RunStatus }) {
+  switch (status) {
+    case 'completed':
+      return <CheckCircle className="w-4 h-4 text-emerald-400" />;
+    case 'failed':
+      return <XCircle className="w-4 h-4 text-red-400" />;
+    case 'cancelled':
+      return <Ban className="w-4 h-4 text-gray-400" />;
+    default:
+      return <Loader2 className="w-4 h-4 text-amber-400 animate-spin" />;
+  }
+}
+
+function formatDuration(ms?: number): string {
+  if (ms === undefined) return '-';
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/**
+ * 실행 기록 목록 - 선택한 실행의 결과를 executionStore와 캔버스에 다시 불러옴
+ */
+export default function RunHistoryPanel() {
+  const { isRunning, runId: currentRunId, loadRun } = useExecutionStore();
+  const { nodes, updateNodeStatus } = useWorkflowStore();
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingRunId, setLoadingRunId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [activeRuns, setActiveRuns] = useState<ActiveRun[]>([]);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setRuns(await fetchRuns());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch runs');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // 실행이 끝날 때마다 목록 갱신
+  useEffect(() => {
+    if (!isRunning) {
+      refresh();
+    }
+  }, [isRunning, refresh]);
+
+  // 다른 탭, 예약, HTTP API로 시작한 실행까지 포함한 진행 중인 실행 - 시작/종료 시 목록도 갱신
+  useEffect(() => {
+    fetchActiveRuns()
+      .then(setActiveRuns)
+      .catch((err) => console.error('Failed to fetch active runs:', err));
+
+    const handleActiveRuns = (runs: ActiveRun[]) => {
+      setActiveRuns(runs);
+      refresh();
+    };
+    socketService.on<ActiveRun[]>('runs:active', handleActiveRuns);
+    return () => socketService.off('runs:active', handleActiveRuns);
+  }, [refresh]);
+
+  // 예약 실행이 끝나면 서버가 schedules:updated를 보내므로 함께 갱신
+  useEffect(() => {
+    const handleSchedulesUpdated = () => refresh();
+    socketService.on('schedules:updated', handleSchedulesUpdated);
+    return () => socketService.off('schedules:updated', handleSchedulesUpdated);
+  }, [refresh]);
+
+  const handleLoad = async (runId: string) => {
+    setLoadingRunId(runId);
+    setError(null);
+    try {
+      const run = await fetchRun(runId);
+      loadRun(run);
+      // 캔버스에 남아 있는 노드만 상태 복원
+      for (const node of run.nodes) {
+        if (nodes.some((n) => n.id === node.nodeId)) {
+          updateNodeStatus(node.nodeId, node.status, node.status === 'completed' ? 100 : 0);
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load run');
+    } finally {
+      setLoadingRunId(null);
+    }
+  };
+
+  const handleDelete = async (runId: string) => {
+    try {
+      await deleteRun(runId);
+      setRuns((prev) => prev.filter((r) => r.runId !== runId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete run');
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-medium text-gray-400 uppercase tracking-wider">
+            Run History
+          </span>
+          {activeRuns.length > 0 && (
+            <span
+              className="flex items-center gap-1 px-1.5 py-0.5 text-xs text-amber-400 bg-amber-500/10 rounded"
+              title={activeRuns.map((r) => r.workflowName).join('\n')}
+            >
+              <Loader2 className="w-3 h-3 animate-spin" />
+              {activeRuns.length}개 실행 중
+            </span>
+          )}
+        </div>
+        <button
+          onClick={refresh}
+          disabled={loading}
+          className="p-1 text-gray-400 hover:text-white hover:bg-surface-hover rounded transition-colors"
+          title="새로고침"
+        >
+          <RefreshCw className={`w-3.5 h-3.5 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && (
+        <div className="px-3 py-2 text-xs text-red-400 border-b border-border">{error}</div>
+      )}
+
+      <div className="flex-1 overflow-y-auto">
+        {runs.length === 0 && !loading ? (
+          <div className="flex flex-col items-center justify-center h-full text-gray-500 text-sm gap-2">
+            <History className="w-6 h-6" />
+            실행 기록이 없습니다
+          </div>
+        ) : (
+          runs.map((run) => (
+            <div
+              key={run.runId}
+              className={`group flex items-center gap-3 px-3 py-2.5 border-b border-border/50 cursor-pointer transition-colors ${
+                run.runId === currentRunId ? 'bg-accent/10' : 'hover:bg-surface-hover'
+              }`}
+              onClick={() => handleLoad(run.runId)}
+            >
+              {loadingRunId === run.runId ? (
+                <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />
+              ) : (
+                <StatusIcon status={run.status} />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-1.5">
+                  <p className="text-sm text-white truncate">{run.workflowName}</p>
+                  {run.resumed && (
+                    <span title="실패 지점부터 재실행">
+                      <RotateCcw className="w-3 h-3 text-gray-500 shrink-0" />
+                    </span>
+                  )}
+                  {run.trigger === 'schedule' && (
+                    <span title="예약 실행">
+                      <Clock className="w-3 h-3 text-gray-500 shrink-0" />
+                    </span>
+                  )}
+                  {run.trigger === 'cli' && (
+                    <span title="makecc run으로 실행">
+                      <Terminal className="w-3 h-3 text-gray-500 shrink-0" />
+                    </span>
+                  )}
+                  {run.trigger === 'api' && (
+                    <span title="HTTP API로 실행">
+                      <Webhook className="w-3 h-3 text-gray-500 shrink-0" />
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {new Date(run.startedAt).toLocaleString('ko-KR')} · {formatDuration(run.durationMs)}
+                  {run.usage && ` · ${formatCost(run.usage.costUsd)}`}
+                </p>
+              </div>
+              {run.status !== 'running' && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(run.runId);
+                  }}
+                  className="p-1 text-gray-500 hover:text-red-400 rounded opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="기록 삭제"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useMemo, useRef, useState } from 'react';
+import { AlertTriangle, Braces } from 'lucide-react';
+import { useWorkflowStore } from '../../stores/workflowStore';
+import { getAvailableVariables, findUnknownVariables } from '../../utils/templateVariables';
+
+interface TemplateTextareaProps {
+  nodeId: string;
+  value: string;
+  onChange: (value: string) => void;
+  rows?: number;
+  placeholder?: string;
+  className?: string;
+}
+
+// 커서 앞에 닫히지 않은 "{{" 가 있으면 입력 중인 변수 이름을 반환
+function getPartialVariable(text: string, caret: number): string | null {
+  const match = text.slice(0, caret).match(/\{\{\s*([^{}\s]*)$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * 템플릿 변수({{...}})를 지원하는 textarea
+ * "{{" 입력 시 상위 노드 라벨 기반 자동완성을 띄우고, 사용할 수 없는 변수는 아래에 경고로 표시
+ */
+export default function TemplateTextarea({
+  nodeId,
+  value,
+  onChange,
+  rows = 4,
+  placeholder,
+  className = '',
+}: TemplateTextareaProps) {
+  const { nodes, edges } = useWorkflowStore();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [caret, setCaret] = useState<number | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const available = useMemo(() => getAvailableVariables(nodeId, nodes, edges), [nodeId, nodes, edges]);
+  const unknown = useMemo(() => findUnknownVariables(value, available), [value, available]);
+
+  const partial = caret !== null ? getPartialVariable(value, caret) : null;
+  const suggestions =
+    partial !== null
+      ? available.filter((v) => v.name.toLowerCase().includes(partial.toLowerCase())).slice(0, 8)
+      : [];
+
+  const insertVariable = (name: string) => {
+    if (caret === null || partial === null) return;
+    const start = caret - partial.length;
+    const rest = value.slice(caret).replace(/^\s*\}\}/, '');
+    const next = `${value.slice(0, start)}${name}}}${rest}`;
+    const nextCaret = start + name.length + 2;
+
+    onChange(next);
+    setCaret(nextCaret);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((i) => (i + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((i) => (i - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertVariable(suggestions[Math.min(activeIndex, suggestions.length - 1)].name);
+    } else if (e.key === 'Escape') {
+      setCaret(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart);
+          setActiveIndex(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => setCaret(e.currentTarget.selectionStart)}
+        onBlur={() => setCaret(null)}
+        rows={rows}
+        placeholder={placeholder}
+        className={className}
+      />
+
+      {/* Autocomplete */}
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 right-0 z-20 mt-1 bg-surface border border-border rounded-lg shadow-lg overflow-hidden">
+          {suggestions.map((variable, index) => (
+            <button
+              key={variable.name}
+              type="button"
+              // blur보다 먼저 처리되도록 mousedown 사용
+              onMouseDown={(e) => {
+                e.preventDefault();
+                insertVariable(variable.name);
+              }}
+              className={`w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left text-xs transition-colors ${
+                index === activeIndex ? 'bg-accent/20 text-white' : 'text-gray-300 hover:bg-surface-hover'
+              }`}
+            >
+              <span className="flex items-center gap-1.5 font-mono truncate">
+                <Braces className="w-3 h-3 text-gray-500 shrink-0" />
+                {variable.name}
+              </span>
+              <span className="text-gray-500 shrink-0">{variable.description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Unknown variables */}
+      {unknown.length > 0 && (
+        <div className="mt-1 flex items-start gap-1.5 text-xs text-amber-400">
+          <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+          <span>
+            알 수 없는 변수: {unknown.map((v) => `{{${v}}}`).join(', ')}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, CheckCircle, XCircle, Clock, Wrench } from 'lucide-react';
+import { useExecutionStore } from '../../stores/executionStore';
+import type { ToolCallRecord } from '../../services/socketService';
+
+// 자주 쓰는 도구는 대표 인자 하나로 요약
+const SUMMARY_KEYS = ['file_path', 'command', 'url', 'pattern', 'path', 'query', 'description'];
+
+function summarizeInput(input: unknown): string {
+  if (!input || typeof input !== 'object') return '';
+  const record = input as Record<string, unknown>;
+  const key = SUMMARY_KEYS.find((k) => typeof record[k] === 'string');
+  const value = key ? (record[key] as string) : Object.values(record).find((v) => typeof v === 'string');
+  return typeof value === 'string' ? value.split('\n')[0] : '';
+}
+
+function formatMs(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function ToolCallItem({ call, offsetMs }: { call: ToolCallRecord; offsetMs: number }) {
+  const [expanded, setExpanded] = useState(false);
+  const summary = summarizeInput(call.input);
+
+  return (
+    <div className="relative pl-5">
+      {/* Timeline dot */}
+      <span className="absolute left-0 top-2">
+        {call.finishedAt === undefined ? (
+          <Clock className="w-3.5 h-3.5 text-gray-500" />
+        ) : call.isError ? (
+          <XCircle className="w-3.5 h-3.5 text-red-400" />
+        ) : (
+          <CheckCircle className="w-3.5 h-3.5 text-emerald-400" />
+        )}
+      </span>
+
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 py-1.5 text-left hover:bg-surface-hover rounded px-1 transition-colors"
+      >
+        {expanded ? (
+          <ChevronDown className="w-3 h-3 text-gray-500 shrink-0" />
+        ) : (
+          <ChevronRight className="w-3 h-3 text-gray-500 shrink-0" />
+        )}
+        <span className="text-xs font-medium text-white shrink-0">{call.name}</span>
+        <span className="text-xs text-gray-500 font-mono truncate flex-1">{summary}</span>
+        <span className="text-xs text-gray-500 shrink-0">
+          +{formatMs(offsetMs)}
+          {call.durationMs !== undefined && ` · ${formatMs(call.durationMs)}`}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="ml-5 mb-2 space-y-2">
+          <div>
+            <div className="text-[10px] uppercase tracking-wide text-gray-500 mb-1">Input</div>
+            <pre className="p-2 bg-black/30 rounded text-xs text-gray-300 font-mono overflow-x-auto max-h-40">
+              {JSON.stringify(call.input, null, 2)}
+            </pre>
+          </div>
+          <div>
+            <div className="text-[10px] uppercase tracking-wide text-gray-500 mb-1">Output</div>
+            <pre
+              className={`p-2 bg-black/30 rounded text-xs font-mono whitespace-pre-wrap break-words max-h-48 overflow-y-auto ${
+                call.isError ? 'text-red-300' : 'text-gray-300'
+              }`}
+            >
+              {call.finishedAt === undefined ? '(결과 없음 - 중단됨)' : call.output || '(빈 결과)'}
+            </pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * 선택한 노드가 마지막 실행에서 호출한 도구 타임라인
+ */
+export default function ToolCallTimeline({ nodeId }: { nodeId: string }) {
+  const toolCalls = useExecutionStore(
+    (state) => state.workflowResults.find((r) => r.nodeId === nodeId)?.toolCalls
+  );
+  const [isOpen, setIsOpen] = useState(true);
+
+  if (!toolCalls || toolCalls.length === 0) return null;
+
+  const firstStart = Date.parse(toolCalls[0].startedAt);
+
+  return (
+    <div>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 mb-2 text-xs font-medium text-gray-500 uppercase tracking-wide"
+      >
+        <Wrench className="w-3.5 h-3.5" />
+        Tool Calls ({toolCalls.length})
+        {isOpen ? <ChevronDown className="w-3.5 h-3.5 ml-auto" /> : <ChevronRight className="w-3.5 h-3.5 ml-auto" />}
+      </button>
+      {isOpen && (
+        <div className="relative">
+          {/* Timeline line */}
+          <div className="absolute left-[6px] top-3 bottom-3 w-px bg-border" />
+          {toolCalls.map((call) => (
+            <ToolCallItem key={call.id} call={call} offsetMs={Date.parse(call.startedAt) - firstStart} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Clock, Plus, Trash2, Loader2 } from 'lucide-react';
+import { useWorkflowStore } from '../../stores/workflowStore';
+import { useExecutionStore } from '../../stores/executionStore';
+import { socketService } from '../../services/socketService';
+import { fetchSchedules, createSchedule, deleteSchedule } from '../../services/scheduleService';
+import { buildExecutionRequest } from '../../utils/executionRequest';
+import type { WorkflowSchedule } from '../../types/run';
+
+const CRON_PRESETS: Array<{ label: string; cron: string }> = [
+  { label: '매시간', cron: '0 * * * *' },
+  { label: '매일 9:00', cron: '0 9 * * *' },
+  { label: '평일 9:00', cron: '0 9 * * 1-5' },
+  { label: '매주 월 9:00', cron: '0 9 * * 1' },
+];
+
+const LAST_STATUS_STYLES: Record<NonNullable<WorkflowSchedule['lastStatus']>, { label: string; className: string }> = {
+  running: { label: '실행 중', className: 'text-amber-400' },
+  completed: { label: '성공', className: 'text-emerald-400' },
+  failed: { label: '실패', className: 'text-red-400' },
+  cancelled: { label: '취소', className: 'text-gray-400' },
+};
+
+function formatTime(iso?: string): string {
+  return iso ? new Date(iso).toLocaleString('ko-KR', { dateStyle: 'short', timeStyle: 'short' }) : '-';
+}
+
+/**
+ * 현재 워크플로우의 예약 실행 - 서버가 떠 있는 동안 cron 시각마다 지금의 캔버스와 입력값으로 실행
+ */
+export default function WorkflowSchedules() {
+  const { workflowId, workflowName, nodes, edges, settings } = useWorkflowStore();
+  const { addLog } = useExecutionStore();
+  const [schedules, setSchedules] = useState<WorkflowSchedule[]>([]);
+  const [cron, setCron] = useState(CRON_PRESETS[2].cron);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSchedules(await fetchSchedules(workflowId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch schedules');
+    }
+  }, [workflowId]);
+
+  useEffect(() => {
+    refresh();
+
+    // 다른 탭에서 바꾸거나 예약 실행이 끝나면 서버가 전체 목록을 보냄
+    const handleSchedulesUpdated = (all: WorkflowSchedule[]) => {
+      setSchedules(all.filter((s) => s.workflowId === workflowId));
+    };
+    socketService.on<WorkflowSchedule[]>('schedules:updated', handleSchedulesUpdated);
+    return () => socketService.off('schedules:updated', handleSchedulesUpdated);
+  }, [workflowId, refresh]);
+
+  const handleCreate = async () => {
+    if (nodes.length === 0) {
+      setError('실행할 노드가 없습니다');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const schedule = await createSchedule(
+        cron.trim(),
+        buildExecutionRequest(workflowId, workflowName, nodes, edges, settings)
+      );
+      addLog('info', `예약 실행 추가: ${schedule.cron} (다음 실행 ${formatTime(schedule.nextRunAt)})`);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteSchedule(id);
+      setSchedules((prev) => prev.filter((s) => s.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete schedule');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h4 className="flex items-center gap-1.5 text-xs font-medium text-gray-500 uppercase tracking-wide">
+        <Clock className="w-3.5 h-3.5" />
+        Schedules
+      </h4>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={cron}
+          onChange={(e) => setCron(e.target.value)}
+          placeholder="분 시 일 월 요일"
+          className="flex-1 min-w-0 px-3 py-2 bg-surface border border-border rounded-lg text-white text-sm font-mono focus:outline-none focus:ring-2 focus:ring-accent"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={saving || !cron.trim()}
+          className="flex items-center gap-1 px-3 py-2 text-sm bg-accent hover:bg-accent/80 disabled:opacity-50 text-white rounded-lg transition-colors"
+          title="현재 캔버스와 입력값으로 예약"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          예약
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {CRON_PRESETS.map((preset) => (
+          <button
+            key={preset.cron}
+            onClick={() => setCron(preset.cron)}
+            className={`px-2 py-0.5 text-xs rounded border transition-colors ${
+              cron === preset.cron
+                ? 'border-accent text-white bg-accent/20'
+                : 'border-border text-gray-400 hover:text-white hover:bg-surface-hover'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        예약 시점의 워크플로우와 입력값으로 실행되며, 서버가 실행 중일 때만 동작합니다.
+      </p>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {schedules.map((schedule) => {
+        const lastStatus = schedule.lastStatus ? LAST_STATUS_STYLES[schedule.lastStatus] : null;
+        return (
+          <div
+            key={schedule.id}
+            className="group flex items-start gap-2 px-2 py-1.5 border border-border rounded-lg bg-surface"
+          >
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-white font-mono">{schedule.cron}</p>
+              <p className="text-xs text-gray-500">다음: {formatTime(schedule.nextRunAt)}</p>
+              {schedule.lastRunAt && (
+                <p className="text-xs text-gray-500 truncate" title={schedule.lastError}>
+                  마지막: {formatTime(schedule.lastRunAt)}
+                  {lastStatus && <span className={`ml-1 ${lastStatus.className}`}>{lastStatus.label}</span>}
+                </p>
+              )}
+            </div>
+            <button
+              onClick={() => handleDelete(schedule.id)}
+              className="p-1 text-gray-500 hover:text-red-400 rounded opacity-0 group-hover:opacity-100 transition-opacity"
+              title="예약 삭제"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
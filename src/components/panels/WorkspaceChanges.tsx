@@ -0,0 +1,222 @@
+import { useEffect, useState } from 'react';
+import { GitCompare, Check, Trash2, Loader2, ChevronDown, ChevronRight, AlertTriangle } from 'lucide-react';
+import { useExecutionStore } from '../../stores/executionStore';
+import { fetchWorkspaceChanges, applyWorkspaceChanges, discardWorkspace } from '../../services/workspaceService';
+import type { WorkspaceChange } from '../../services/socketService';
+
+const STATUS_STYLES: Record<WorkspaceChange['status'], { label: string; className: string }> = {
+  added: { label: 'A', className: 'text-green-400' },
+  modified: { label: 'M', className: 'text-amber-400' },
+  deleted: { label: 'D', className: 'text-red-400' },
+};
+
+function diffLineClass(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---')) return 'text-gray-500';
+  if (line.startsWith('@@')) return 'text-cyan-400';
+  if (line.startsWith('+')) return 'text-green-400 bg-green-900/20';
+  if (line.startsWith('-')) return 'text-red-400 bg-red-900/20';
+  return 'text-gray-400';
+}
+
+function ChangeItem({
+  change,
+  checked,
+  conflict,
+  onToggle,
+}: {
+  change: WorkspaceChange;
+  checked: boolean;
+  conflict: boolean;
+  onToggle: () => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const status = STATUS_STYLES[change.status];
+
+  return (
+    <div className="border border-border rounded-lg bg-surface">
+      <div className="flex items-center gap-2 px-2 py-1.5">
+        <input type="checkbox" checked={checked} onChange={onToggle} className="accent-accent" />
+        <span className={`w-3 text-xs font-mono font-bold ${status.className}`}>{status.label}</span>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-1 flex-1 min-w-0 text-left text-xs text-gray-300 hover:text-white"
+        >
+          {expanded ? <ChevronDown className="w-3 h-3 shrink-0" /> : <ChevronRight className="w-3 h-3 shrink-0" />}
+          <span className="font-mono truncate">{change.path}</span>
+        </button>
+        {conflict && (
+          <span title="실행 중 프로젝트 파일도 바뀌어 적용하지 않았습니다">
+            <AlertTriangle className="w-3.5 h-3.5 text-yellow-400" />
+          </span>
+        )}
+      </div>
+      {expanded && (
+        <div className="border-t border-border">
+          {change.diff ? (
+            <pre className="p-2 max-h-72 overflow-auto text-xs font-mono">
+              {change.diff.split('\n').map((line, i) => (
+                <div key={i} className={diffLineClass(line)}>
+                  {line || ' '}
+                </div>
+              ))}
+            </pre>
+          ) : (
+            <p className="p-2 text-xs text-gray-500">
+              {change.binary ? '바이너리 파일' : change.tooLarge ? '파일이 커서 diff를 표시하지 않습니다' : '내용 변경 없음'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * 격리 실행의 변경 사항 - 확인한 파일만 실제 프로젝트에 적용하거나 작업 공간을 폐기
+ */
+export default function WorkspaceChanges() {
+  const { workspace, isRunning, setWorkspace, addLog } = useExecutionStore();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [conflicts, setConflicts] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 실행 기록에서 불러온 작업 공간은 변경 사항을 서버에서 다시 계산
+  useEffect(() => {
+    if (!workspace || workspace.status !== 'pending' || workspace.changes) return;
+    fetchWorkspaceChanges(workspace.runId)
+      .then((changes) => setWorkspace({ ...workspace, changes }))
+      .catch((err) => setError(err instanceof Error ? err.message : String(err)));
+  }, [workspace, setWorkspace]);
+
+  // 변경 목록이 바뀌면 전체 선택
+  useEffect(() => {
+    setSelected(new Set(workspace?.changes?.map((c) => c.path) ?? []));
+    setConflicts(new Set());
+    setError(null);
+  }, [workspace?.runId, workspace?.changes]);
+
+  if (!workspace || isRunning) return null;
+
+  const changes = workspace.changes;
+
+  const toggle = (path: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const { applied, conflicts: conflicted, remaining } = await applyWorkspaceChanges(
+        workspace.runId,
+        [...selected]
+      );
+      addLog('success', `작업 공간 변경 사항 ${applied.length}개 파일을 프로젝트에 적용했습니다.`);
+      if (conflicted.length > 0) {
+        setConflicts(new Set(conflicted));
+        setSelected(new Set(conflicted));
+        addLog('warning', `프로젝트 파일도 바뀌어 적용하지 않은 파일: ${conflicted.join(', ')}`);
+      } else if (remaining > 0) {
+        // 적용하지 않은 변경 사항만 다시 불러옴
+        setWorkspace({ ...workspace, changes: null });
+      } else {
+        setWorkspace({ ...workspace, status: 'applied' });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await discardWorkspace(workspace.runId);
+      setWorkspace({ ...workspace, status: 'discarded' });
+      addLog('info', '작업 공간을 폐기했습니다.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const modeLabel = workspace.mode === 'worktree' ? 'git worktree' : '프로젝트 복사본';
+
+  return (
+    <div className="mb-4 p-3 rounded-lg border border-border bg-surface-hover/30 space-y-3">
+      <div className="flex items-center gap-2">
+        <GitCompare className="w-4 h-4 text-cyan-400" />
+        <h4 className="text-sm font-medium text-white flex-1">
+          작업 공간 변경 사항 <span className="text-gray-500 font-normal">· {modeLabel}</span>
+        </h4>
+        {changes && workspace.status === 'pending' && (
+          <span className="text-xs text-gray-500">{changes.length}개 파일</span>
+        )}
+      </div>
+
+      {workspace.status !== 'pending' ? (
+        <p className="text-xs text-gray-400">
+          {workspace.status === 'applied' ? '변경 사항을 프로젝트에 적용했습니다.' : '작업 공간을 폐기했습니다.'}
+        </p>
+      ) : !changes ? (
+        error ? null : (
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            변경 사항 확인 중...
+          </div>
+        )
+      ) : (
+        <>
+          {changes.length === 0 ? (
+            <p className="text-xs text-gray-400">변경된 파일이 없습니다.</p>
+          ) : (
+            <div className="space-y-1.5">
+              {changes.map((change) => (
+                <ChangeItem
+                  key={change.path}
+                  change={change}
+                  checked={selected.has(change.path)}
+                  conflict={conflicts.has(change.path)}
+                  onToggle={() => toggle(change.path)}
+                />
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleApply}
+              disabled={busy || selected.size === 0}
+              className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-green-600 hover:bg-green-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />}
+              선택한 {selected.size}개 적용
+            </button>
+            <button
+              onClick={handleDiscard}
+              disabled={busy}
+              className="flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-surface border border-border text-gray-300 hover:text-red-300 hover:border-red-700 transition-colors disabled:opacity-50"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+              폐기
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
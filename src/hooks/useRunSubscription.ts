@@ -0,0 +1,56 @@
+import { useEffect } from 'react';
+import { useExecutionStore } from '../stores/executionStore';
+import { socketService, type RunSubscribedData } from '../services/socketService';
+import { fetchRun } from '../services/runService';
+
+/**
+ * 새로고침하거나 소켓이 다시 연결되면 진행 중인 실행을 다시 구독
+ * 서버는 마지막으로 받은 이벤트 이후의 이벤트를 다시 보낸 뒤 실시간 이벤트를 이어서 보낸다.
+ * (이벤트 처리는 useWorkflowExecution)
+ */
+export function useRunSubscription() {
+  useEffect(() => {
+    const resubscribe = () => {
+      const { isRunning, runId, lastEventSeq, stopExecution } = useExecutionStore.getState();
+      if (!isRunning) return;
+
+      // 실행 ID를 받기 전에 새로고침한 경우 - 어떤 실행인지 알 수 없으므로 복원하지 않음
+      if (!runId) {
+        stopExecution();
+        return;
+      }
+      socketService.subscribeRun(runId, lastEventSeq);
+    };
+
+    const handleSubscribed = async (data: RunSubscribedData) => {
+      const state = useExecutionStore.getState();
+      if (data.runId !== state.runId) return;
+
+      if (!data.found) {
+        // 서버에 보관된 이벤트가 없음 (서버 재시작, 보관 시간 경과) - 실행 기록에서 결과를 불러옴
+        try {
+          state.loadRun(await fetchRun(data.runId));
+        } catch {
+          state.stopExecution();
+          state.addLog('warning', '실행을 복원할 수 없습니다.');
+        }
+        return;
+      }
+
+      if (data.truncated) {
+        state.addLog('warning', '오래된 실행 로그 일부는 복원되지 않았습니다.');
+      }
+    };
+
+    socketService.on('connect', resubscribe);
+    socketService.on<RunSubscribedData>('run:subscribed', handleSubscribed);
+    if (socketService.isConnected()) {
+      resubscribe();
+    }
+
+    return () => {
+      socketService.off('connect', resubscribe);
+      socketService.off('run:subscribed', handleSubscribed);
+    };
+  }, []);
+}
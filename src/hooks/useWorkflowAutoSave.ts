@@ -0,0 +1,42 @@
+import { useEffect, useRef } from 'react';
+import { useWorkflowStore } from '../stores/workflowStore';
+import { useExecutionStore } from '../stores/executionStore';
+import { saveWorkflowDefinition } from '../services/workflowDefinitionService';
+import { buildExecutionRequest } from '../utils/executionRequest';
+
+const SAVE_DELAY_MS = 1000;
+
+/**
+ * 캔버스가 바뀌면 워크플로우 정의를 서버에 저장 (HTTP로 실행할 수 있도록)
+ * 실행 중에는 노드 상태만 바뀌므로 저장하지 않음
+ */
+export function useWorkflowAutoSave() {
+  const { workflowId, workflowName, nodes, edges, settings } = useWorkflowStore();
+  const isRunning = useExecutionStore((state) => state.isRunning);
+  const lastSavedRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (isRunning || nodes.length === 0) return;
+
+    const timer = setTimeout(() => {
+      const request = buildExecutionRequest(workflowId, workflowName, nodes, edges, settings);
+      // 노드 위치나 실행 상태만 바뀐 경우는 다시 저장하지 않음
+      const serialized = JSON.stringify({
+        ...request,
+        nodes: request.nodes.map(({ data: { status: _status, progress: _progress, ...data }, ...node }) => ({
+          ...node,
+          data,
+        })),
+      });
+      if (serialized === lastSavedRef.current) return;
+
+      saveWorkflowDefinition(request)
+        .then(() => {
+          lastSavedRef.current = serialized;
+        })
+        .catch((err) => console.error('Failed to save workflow definition:', err));
+    }, SAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [workflowId, workflowName, nodes, edges, settings, isRunning]);
+}
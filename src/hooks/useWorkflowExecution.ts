@@ -1,56 +1,131 @@
-import { useCallback, useState, useEffect, useRef } from 'react';
+import { useCallback, useState, useEffect } from 'react';
 import { useWorkflowStore } from '../stores/workflowStore';
 import { useExecutionStore } from '../stores/executionStore';
 import {
   socketService,
   type NodeUpdateEvent,
+  type NodeOutputEvent,
   type ConsoleLogEvent,
+  type WorkflowStartedData,
   type WorkflowCompletedData,
+  type WorkflowExecutionRequest,
+  type ApprovalRequestEvent,
+  type ApprovalResolvedEvent,
+  type DryRunResult,
 } from '../services/socketService';
+import { buildExecutionRequest } from '../utils/executionRequest';
 
 export function useWorkflowExecution() {
-  const { nodes, edges, workflowName, updateNodeStatus } = useWorkflowStore();
+  const { nodes, edges, workflowName, settings, updateNode, updateNodeStatus } = useWorkflowStore();
   const {
     isRunning,
+    workflowId: lastWorkflowId,
+    runId,
+    failedNodes,
     startExecution,
     stopExecution,
-    setCurrentNode,
+    markNodeRunning,
     markNodeCompleted,
     markNodeFailed,
+    markNodeCancelled,
     setWorkflowResults,
+    setRunId,
+    setRunUsage,
+    setDryRun,
+    setWorkspace,
+    appendNodeOutput,
+    addPendingApproval,
+    removePendingApproval,
     addLog,
     clearLogs,
   } = useExecutionStore();
 
   const [savedOutputDir, setSavedOutputDir] = useState<string | null>(null);
-  const workflowIdRef = useRef<string | null>(null);
 
   // Socket.IO 이벤트 리스너 등록
   useEffect(() => {
+    // 실행 중 이벤트는 runId로 현재 실행의 것인지 확인 (runId가 없으면 실행 기록을 만들기 전의 이벤트)
+    // 다시 구독하면 이미 처리한 이벤트도 오므로 seq로 한 번만 처리
+    const isCurrentRun = (event: { runId?: string; seq?: number }) => {
+      const state = useExecutionStore.getState();
+      return (!event.runId || event.runId === state.runId) && state.acceptRunEvent(event.seq);
+    };
+
+    // 종료 이벤트는 실행 기록을 만들기 전에 실패할 수 있으므로 runId가 없으면 workflowId로 확인
+    const isCurrentWorkflow = (data?: { workflowId?: string; runId?: string; seq?: number }) => {
+      const state = useExecutionStore.getState();
+      if (data?.runId) return data.runId === state.runId && state.acceptRunEvent(data.seq);
+      return !data?.workflowId || data.workflowId === state.workflowId;
+    };
+
+    // 실행 시작 - 이후 이벤트를 구분할 실행 ID 저장
+    const handleWorkflowStarted = (data: WorkflowStartedData) => {
+      const state = useExecutionStore.getState();
+      if (state.isRunning && !state.runId && state.workflowId === data.workflowId) {
+        setRunId(data.runId);
+        state.acceptRunEvent(data.seq);
+      }
+    };
+
     // 노드 업데이트 이벤트
     const handleNodeUpdate = (update: NodeUpdateEvent) => {
-      const { nodeId, status, progress, result, error } = update;
+      if (!isCurrentRun(update)) return;
+      const { nodeId, status, progress, result, error, errorKind, attempt, maxAttempts, branch, rejected } = update;
+
+      // 재시도 정책이 있는 노드는 시도 횟수를 캔버스에 표시
+      if (attempt !== undefined) {
+        updateNode(nodeId, { attempt, maxAttempts });
+      }
 
       if (status === 'running') {
         updateNodeStatus(nodeId, 'running', progress || 0);
-        setCurrentNode(nodeId);
+        markNodeRunning(nodeId);
       } else if (status === 'completed') {
+        // 조건 노드는 선택된 분기를 캔버스에 표시
+        if (branch !== undefined) {
+          updateNode(nodeId, { branch });
+        }
+        // 승인 노드는 거부 여부를 캔버스에 표시
+        if (rejected !== undefined) {
+          updateNode(nodeId, { rejected });
+        }
         updateNodeStatus(nodeId, 'completed', 100);
         markNodeCompleted(nodeId, result);
       } else if (status === 'error') {
+        updateNode(nodeId, { errorKind });
         updateNodeStatus(nodeId, 'error', 0);
         markNodeFailed(nodeId, error || 'Unknown error');
+      } else if (status === 'cancelled') {
+        updateNodeStatus(nodeId, 'cancelled', 0);
+        markNodeCancelled(nodeId);
+      } else if (status === 'skipped') {
+        updateNodeStatus(nodeId, 'skipped', 0);
+      } else if (status === 'waiting') {
+        updateNodeStatus(nodeId, 'waiting', 0);
       }
     };
 
+    // CLI 응답 스트리밍 이벤트
+    const handleNodeOutput = (output: NodeOutputEvent) => {
+      if (!isCurrentRun(output)) return;
+      appendNodeOutput(output.nodeId, output.text);
+    };
+
     // 콘솔 로그 이벤트
     const handleConsoleLog = (log: ConsoleLogEvent) => {
+      if (!isCurrentRun(log)) return;
       const level = log.type === 'warn' ? 'warning' : log.type === 'debug' ? 'info' : log.type;
       addLog(level as 'info' | 'warning' | 'error' | 'success', log.message, log.nodeId);
     };
 
     // 워크플로우 완료 이벤트
     const handleWorkflowCompleted = (data: WorkflowCompletedData) => {
+      if (!isCurrentWorkflow(data)) return;
+      if (data.runId) {
+        setRunId(data.runId);
+      }
+      setRunUsage(data.usage ?? null);
+      setWorkspace(data.workspace ? { ...data.workspace, status: 'pending' } : null);
       if (data.results) {
         setWorkflowResults(data.results);
       }
@@ -62,33 +137,81 @@ export function useWorkflowExecution() {
     };
 
     // 워크플로우 에러 이벤트
-    const handleWorkflowError = (data: { workflowId: string; error: string }) => {
+    const handleWorkflowError = (data: { workflowId: string; runId?: string; error: string }) => {
+      if (!isCurrentWorkflow(data)) return;
       stopExecution();
       addLog('error', `실행 오류: ${data.error}`);
     };
 
-    // 워크플로우 취소 이벤트
-    const handleWorkflowCancelled = () => {
+    // 워크플로우 취소 이벤트 (실행 중이었다면 부분 결과 포함)
+    const handleWorkflowCancelled = (data?: Partial<WorkflowCompletedData>) => {
+      if (!isCurrentWorkflow(data)) return;
+      if (data?.runId) {
+        setRunId(data.runId);
+      }
+      setRunUsage(data?.usage ?? null);
+      setWorkspace(data?.workspace ? { ...data.workspace, status: 'pending' } : null);
+      if (data?.results) {
+        setWorkflowResults(data.results);
+      }
+      if (data?.outputDir) {
+        setSavedOutputDir(data.outputDir);
+      }
       stopExecution();
       addLog('warning', '워크플로우 실행이 취소되었습니다.');
     };
 
+    // 드라이런 결과 - PreviewPanel에 노드별 프롬프트 표시
+    const handleDryRun = (result: DryRunResult) => {
+      setDryRun(result);
+    };
+
+    // 승인 노드가 검토를 요청 - 콘솔 패널에서 응답
+    const handleApprovalRequested = (request: ApprovalRequestEvent) => {
+      if (!isCurrentRun(request)) return;
+      addPendingApproval(request);
+      addLog('warning', `"${request.label}" 승인 대기 중`, request.nodeId);
+    };
+
+    // 다른 탭에서 응답했거나 재구독 전에 이미 처리된 승인 요청
+    const handleApprovalResolved = (event: ApprovalResolvedEvent) => {
+      if (!isCurrentRun(event)) return;
+      removePendingApproval(event.approvalId);
+    };
+
     // 이벤트 리스너 등록
+    socketService.on('workflow:started', handleWorkflowStarted);
     socketService.on('node:update', handleNodeUpdate);
+    socketService.on('node:output', handleNodeOutput);
+    socketService.on('approval:requested', handleApprovalRequested);
+    socketService.on('approval:resolved', handleApprovalResolved);
     socketService.on('console:log', handleConsoleLog);
     socketService.on('workflow:completed', handleWorkflowCompleted);
     socketService.on('workflow:error', handleWorkflowError);
     socketService.on('workflow:cancelled', handleWorkflowCancelled);
+    socketService.on('workflow:dryRun', handleDryRun);
 
     // 클린업
     return () => {
+      socketService.off('workflow:started', handleWorkflowStarted);
       socketService.off('node:update', handleNodeUpdate);
+      socketService.off('node:output', handleNodeOutput);
+      socketService.off('approval:requested', handleApprovalRequested);
+      socketService.off('approval:resolved', handleApprovalResolved);
       socketService.off('console:log', handleConsoleLog);
       socketService.off('workflow:completed', handleWorkflowCompleted);
       socketService.off('workflow:error', handleWorkflowError);
       socketService.off('workflow:cancelled', handleWorkflowCancelled);
+      socketService.off('workflow:dryRun', handleDryRun);
     };
-  }, [addLog, markNodeCompleted, markNodeFailed, setCurrentNode, setWorkflowResults, stopExecution, updateNodeStatus]);
+  }, [addLog, addPendingApproval, removePendingApproval, appendNodeOutput, markNodeCompleted, markNodeFailed, markNodeCancelled, markNodeRunning, setDryRun, setRunId, setRunUsage, setWorkflowResults, setWorkspace, stopExecution, updateNode, updateNodeStatus]);
+
+  // 현재 캔버스 상태로 실행 요청 생성
+  const buildRequest = useCallback(
+    (workflowId: string): WorkflowExecutionRequest =>
+      buildExecutionRequest(workflowId, workflowName, nodes, edges, settings),
+    [nodes, edges, workflowName, settings]
+  );
 
   // Socket.IO를 통해 서버에서 워크플로우 실행 (Claude CLI 사용)
   const execute = useCallback(() => {
@@ -97,51 +220,60 @@ export function useWorkflowExecution() {
       return;
     }
 
+    // 워크플로우 ID 생성
+    const workflowId = `workflow-${Date.now()}`;
+
     // Clear previous logs and start
     clearLogs();
-    startExecution();
+    startExecution(workflowId);
     setSavedOutputDir(null);
 
-    // 워크플로우 ID 생성
-    const workflowId = `workflow-${Date.now()}`;
-    workflowIdRef.current = workflowId;
-
     addLog('info', `워크플로우 "${workflowName}" 실행 시작 (Claude CLI)...`);
 
-    // Input 노드들의 값을 수집
-    const inputs: Record<string, string> = {};
-    nodes.forEach((n) => {
-      if (n.type === 'input') {
-        const data = n.data as Record<string, unknown>;
-        // value, defaultValue, placeholder 순으로 fallback
-        const value = (data.value as string) || (data.defaultValue as string) || (data.placeholder as string) || '';
-        if (value) {
-          inputs[n.id] = value;
-        }
-      }
-    });
-
     // Socket.IO로 워크플로우 실행 요청
-    socketService.executeWorkflow({
-      workflowId,
-      workflowName,
-      nodes: nodes.map((n) => ({
-        id: n.id,
-        type: n.type || 'unknown',
-        data: n.data as Record<string, unknown>,
-      })),
-      edges: edges.map((e) => ({
-        id: e.id,
-        source: e.source,
-        target: e.target,
-      })),
-      inputs,
-    });
-  }, [nodes, edges, workflowName, addLog, clearLogs, startExecution]);
+    socketService.executeWorkflow(buildRequest(workflowId));
+  }, [nodes.length, workflowName, buildRequest, addLog, clearLogs, startExecution]);
+
+  // 드라이런 - 실행하지 않고 노드별 프롬프트만 확인 (마지막 실행과 같은 출력 디렉토리 기준)
+  const dryRun = useCallback(() => {
+    if (nodes.length === 0 || isRunning) return;
+
+    setDryRun(null);
+    addLog('info', `워크플로우 "${workflowName}" 드라이런 (claude 실행 없음)...`);
+
+    socketService.dryRunWorkflow(buildRequest(lastWorkflowId ?? `workflow-${Date.now()}`));
+  }, [nodes.length, isRunning, lastWorkflowId, workflowName, buildRequest, addLog, setDryRun]);
+
+  // 마지막 실행을 실패한 노드부터 재개 (같은 workflowId = 같은 출력 디렉토리)
+  // 격리 실행은 재사용할 노드의 파일 변경이 이전 작업 공간에 남아 있으므로 재개하지 않음
+  const canResume =
+    !isRunning && !!lastWorkflowId && failedNodes.size > 0 && (settings.isolation ?? 'none') === 'none';
+
+  const resume = useCallback(() => {
+    if (!lastWorkflowId || isRunning) return;
+
+    startExecution(lastWorkflowId);
+    setSavedOutputDir(null);
+
+    addLog('info', `워크플로우 "${workflowName}" 실패 지점부터 재실행...`);
+
+    socketService.resumeWorkflow(buildRequest(lastWorkflowId));
+  }, [lastWorkflowId, isRunning, workflowName, buildRequest, addLog, startExecution]);
+
+  // 실행 취소 - 서버가 claude 프로세스를 종료한 뒤 workflow:cancelled를 보냄
+  const cancel = useCallback(() => {
+    if (!isRunning) return;
+    addLog('warning', '워크플로우 실행 취소 요청...');
+    socketService.cancelExecution(runId ?? undefined);
+  }, [isRunning, runId, addLog]);
 
   return {
     isRunning,
     execute,
+    dryRun,
+    resume,
+    canResume,
+    cancel,
     savedOutputDir,
   };
 }
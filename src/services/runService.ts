@@ -0,0 +1,53 @@
+import type { ActiveRun, RunRecord, RunSummary } from '../types/run';
+
+/**
+ * Lists past runs, newest first
+ */
+export async function fetchRuns(workflowId?: string): Promise<RunSummary[]> {
+  const query = workflowId ? `?workflowId=${encodeURIComponent(workflowId)}` : '';
+  const response = await fetch(`/api/runs${query}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch runs');
+  }
+
+  const data = await response.json();
+  return data.runs;
+}
+
+/**
+ * Lists runs that are still in progress, started from any client, schedule or the HTTP API
+ */
+export async function fetchActiveRuns(): Promise<ActiveRun[]> {
+  const response = await fetch('/api/runs/active');
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch active runs');
+  }
+
+  const data = await response.json();
+  return data.runs;
+}
+
+/**
+ * Gets a single run record with per-node results
+ */
+export async function fetchRun(runId: string): Promise<RunRecord> {
+  const response = await fetch(`/api/runs/${encodeURIComponent(runId)}`);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to fetch run');
+  }
+
+  return response.json();
+}
+
+export async function deleteRun(runId: string): Promise<void> {
+  const response = await fetch(`/api/runs/${encodeURIComponent(runId)}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to delete run');
+  }
+}
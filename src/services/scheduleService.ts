@@ -0,0 +1,58 @@
+import type { WorkflowSchedule } from '../types/run';
+import type { WorkflowExecutionRequest } from './socketService';
+
+/**
+ * Lists schedules, optionally only those of one workflow
+ */
+export async function fetchSchedules(workflowId?: string): Promise<WorkflowSchedule[]> {
+  const query = workflowId ? `?workflowId=${encodeURIComponent(workflowId)}` : '';
+  const response = await fetch(`/api/schedules${query}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch schedules');
+  }
+
+  const data = await response.json();
+  return data.schedules;
+}
+
+/**
+ * Schedules the given workflow snapshot to run with its current inputs.
+ * Later canvas edits do not change the schedule.
+ */
+export async function createSchedule(cron: string, request: WorkflowExecutionRequest): Promise<WorkflowSchedule> {
+  const { workflowId, workflowName, inputs, ...rest } = request;
+  const response = await fetch('/api/schedules', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      workflowId,
+      workflowName,
+      cron,
+      inputs,
+      request: {
+        nodes: rest.nodes,
+        edges: rest.edges,
+        maxConcurrency: rest.maxConcurrency,
+        defaultTimeoutMs: rest.defaultTimeoutMs,
+        backend: rest.backend,
+      },
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to create schedule');
+  }
+
+  return response.json();
+}
+
+export async function deleteSchedule(id: string): Promise<void> {
+  const response = await fetch(`/api/schedules/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to delete schedule');
+  }
+}
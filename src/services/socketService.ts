@@ -1,5 +1,6 @@
 import { io, Socket } from 'socket.io-client';
-import type { NodeStatus } from '../types/nodes';
+import type { NodeStatus, NodeErrorKind, RetryCondition, ExecutionBackendId, PermissionMode } from '../types/nodes';
+import type { IsolationMode } from '../types/workflow';
 
 // 개발/프로덕션 환경에 따라 URL 결정
 const SOCKET_URL = import.meta.env.DEV
@@ -13,6 +14,21 @@ export interface NodeUpdateEvent {
   progress?: number;
   result?: string;
   error?: string;
+  errorKind?: NodeErrorKind;
+  attempt?: number;
+  maxAttempts?: number;
+  branch?: string;
+  rejected?: boolean; // 승인 노드가 거부됨
+  runId?: string; // 여러 실행이 동시에 진행될 수 있으므로 실행 중 이벤트에는 runId가 붙음
+  seq?: number; // 실행별 이벤트 순서 번호 - 다시 구독하면 이미 받은 이벤트도 올 수 있음
+}
+
+// CLI 응답 텍스트 조각 - 받은 순서대로 이어 붙이면 노드의 전체 응답
+export interface NodeOutputEvent {
+  nodeId: string;
+  text: string;
+  runId?: string;
+  seq?: number;
 }
 
 export interface ConsoleLogEvent {
@@ -20,30 +36,162 @@ export interface ConsoleLogEvent {
   message: string;
   timestamp: string;
   nodeId?: string;
+  runId?: string;
+  seq?: number;
 }
 
 export interface WorkflowExecutionRequest {
   workflowId: string;
   workflowName: string;
   nodes: Array<{ id: string; type: string; data: Record<string, unknown> }>;
-  edges: Array<{ id: string; source: string; target: string }>;
+  edges: Array<{ id: string; source: string; target: string; sourceHandle?: string | null }>;
   inputs?: Record<string, string>;
+  maxConcurrency?: number;
+  defaultTimeoutMs?: number;
+  backend?: ExecutionBackendId;
+  dryRun?: boolean;
+  isolation?: IsolationMode;
+}
+
+// 드라이런 결과 - 노드가 실행되면 claude에 전달될 프롬프트와 설정 (이전 단계 결과는 자리표시자)
+export interface DryRunNodePlan {
+  nodeId: string;
+  label: string;
+  type: string;
+  prompt?: string;
+  backend?: ExecutionBackendId;
+  workingDirectory?: string;
+  outputDirectory?: string;
+  timeoutMs?: number;
+  tools?: string[];
+  model?: string;
+  systemPrompt?: string;
+  permissionMode?: PermissionMode;
+  retry?: { maxAttempts: number; backoffMs: number; retryOn?: RetryCondition[] };
+  outputSchema?: string;
+  notes: string[];
+}
+
+export interface DryRunResult {
+  workflowId: string;
+  nodes: DryRunNodePlan[];
 }
 
 // Workflow result types
+// 에이전트가 호출한 도구 - startedAt/finishedAt은 ISO 문자열
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  input: unknown;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  output?: string;
+  isError?: boolean;
+}
+
+// 토큰 사용량과 비용 (USD)
+export interface UsageStats {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+  durationMs: number;
+}
+
+// usage:updated 이벤트 / GET /api/usage - 서버 시작 이후 AI 생성 사용량
+export interface UsageSummary {
+  total?: UsageStats;
+  bySource: Partial<Record<'workflowAI' | 'skillGenerator' | 'nodeContent', UsageStats>>;
+}
+
+// 노드 결과 파일 - change가 있으면 작업 디렉토리에서 생성/수정/삭제된 파일 (name은 상대 경로)
+export interface GeneratedFile {
+  path: string;
+  type: string;
+  name: string;
+  change?: 'created' | 'modified' | 'deleted';
+}
+
 export interface WorkflowResult {
   nodeId: string;
   label: string;
   success: boolean;
   result?: string;
-  files?: Array<{ path: string; type: string; name: string }>;
+  data?: unknown;
+  toolCalls?: ToolCallRecord[];
+  usage?: UsageStats;
+  files?: GeneratedFile[];
   error?: string;
+  errorKind?: NodeErrorKind;
+  cancelled?: boolean;
+  skipped?: boolean;
+  rejected?: boolean;
+}
+
+// Approval gate types
+export interface ApprovalRequestEvent {
+  approvalId: string;
+  workflowId: string;
+  nodeId: string;
+  label: string;
+  content: string;
+  instructions?: string;
+  runId?: string;
+  seq?: number;
+}
+
+// 승인 요청이 처리됨 - 다른 탭이나 재연결 전에 응답한 요청을 목록에서 지움
+export interface ApprovalResolvedEvent {
+  approvalId: string;
+  runId?: string;
+  seq?: number;
+}
+
+export interface ApprovalResponse {
+  approvalId: string;
+  action: 'approve' | 'reject' | 'edit';
+  text?: string;
+}
+
+// 격리 실행 작업 공간에서 바뀐 파일 - diff는 실제 프로젝트 파일 기준 unified diff
+export interface WorkspaceChange {
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+  diff?: string;
+  binary?: boolean;
+  tooLarge?: boolean;
+}
+
+export interface WorkspaceChangesPayload {
+  runId: string;
+  mode: Exclude<IsolationMode, 'none'>;
+  changes: WorkspaceChange[];
+}
+
+export interface WorkflowStartedData {
+  workflowId: string;
+  runId: string;
+  seq?: number;
+}
+
+// subscribe:run 응답 - found가 false면 보관 중인 이벤트가 없으므로 실행 기록에서 불러옴
+export interface RunSubscribedData {
+  runId: string;
+  found: boolean;
+  truncated?: boolean; // 오래된 이벤트 일부가 버려져 다시 받지 못함
+  finished?: boolean;
 }
 
 export interface WorkflowCompletedData {
   workflowId: string;
+  runId?: string; // 실행 기록 ID (GET /api/runs/:runId)
   results?: WorkflowResult[];
+  usage?: UsageStats; // 노드 사용량 합계
+  workspace?: WorkspaceChangesPayload; // 격리 실행 - 확인 후 프로젝트에 적용할 변경 사항
   outputDir?: string;
+  seq?: number;
 }
 
 // Skill generation types
@@ -141,9 +289,33 @@ class SocketService {
     this.emit('execute:workflow', request);
   }
 
-  // 실행 취소
-  cancelExecution(): void {
-    this.emit('execute:cancel');
+  // 드라이런 - claude를 실행하지 않고 workflow:dryRun으로 노드별 프롬프트를 받음
+  dryRunWorkflow(request: WorkflowExecutionRequest): void {
+    this.emit('execute:workflow', { ...request, dryRun: true });
+  }
+
+  // 실패한 노드부터 워크플로우 재실행 (성공한 노드 결과는 재사용)
+  resumeWorkflow(request: WorkflowExecutionRequest): void {
+    this.emit('execute:workflow:resume', request);
+  }
+
+  // 승인 노드 응답
+  respondApproval(response: ApprovalResponse): void {
+    this.emit('approval:respond', response);
+  }
+
+  // 실행 구독 - afterSeq 이후 이벤트를 다시 받은 뒤 실시간 이벤트를 이어서 받음 (run:subscribed로 응답)
+  subscribeRun(runId: string, afterSeq = 0): void {
+    this.emit('subscribe:run', { runId, afterSeq });
+  }
+
+  unsubscribeRun(runId: string): void {
+    this.emit('unsubscribe:run', { runId });
+  }
+
+  // 실행 취소 - runId가 없으면 이 연결에서 시작한 실행을 모두 취소
+  cancelExecution(runId?: string): void {
+    this.emit('execute:cancel', { runId });
   }
 
   // 스킬 생성 요청
@@ -1,4 +1,5 @@
 import type { WorkflowNode, WorkflowEdge } from '../types/nodes';
+import { FLOW_ONLY_NODE_TYPES } from '../types/nodes';
 import { useProjectStore } from '../stores/projectStore';
 
 /**
@@ -66,8 +67,8 @@ function toSyncData(node: WorkflowNode): NodeSyncData {
  * 노드 생성/수정 시 파일 동기화
  */
 export async function syncNode(node: WorkflowNode): Promise<boolean> {
-  // input, output 노드는 동기화 불필요
-  if (node.type === 'input' || node.type === 'output') {
+  // input, output 등 실행 흐름 전용 노드는 동기화 불필요
+  if (FLOW_ONLY_NODE_TYPES.includes(node.type)) {
     return true;
   }
 
@@ -103,7 +104,7 @@ export async function syncNode(node: WorkflowNode): Promise<boolean> {
  * 노드 삭제 시 파일 삭제 및 관련 참조 정리
  */
 export async function deleteNode(node: WorkflowNode, allNodes: WorkflowNode[]): Promise<boolean> {
-  if (node.type === 'input' || node.type === 'output') {
+  if (FLOW_ONLY_NODE_TYPES.includes(node.type)) {
     return true;
   }
 
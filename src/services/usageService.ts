@@ -0,0 +1,14 @@
+import type { UsageSummary } from './socketService';
+
+/**
+ * AI generation (workflow design, skill and node content) usage since the server started
+ */
+export async function fetchUsageSummary(): Promise<UsageSummary> {
+  const response = await fetch('/api/usage');
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch usage');
+  }
+
+  return response.json();
+}
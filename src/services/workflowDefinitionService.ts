@@ -0,0 +1,19 @@
+import type { WorkflowExecutionRequest } from './socketService';
+
+/**
+ * Stores the workflow on the server so other tools can start it
+ * through POST /api/workflows/:id/runs
+ */
+export async function saveWorkflowDefinition(request: WorkflowExecutionRequest): Promise<void> {
+  const { workflowId, workflowName, ...rest } = request;
+  const response = await fetch(`/api/workflows/${encodeURIComponent(workflowId)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name: workflowName, request: rest }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to save workflow');
+  }
+}
@@ -0,0 +1,51 @@
+import type { WorkspaceChange } from './socketService';
+
+/**
+ * Gets the files an isolated run changed, with diffs against the real project
+ */
+export async function fetchWorkspaceChanges(runId: string): Promise<WorkspaceChange[]> {
+  const response = await fetch(`/api/runs/${encodeURIComponent(runId)}/changes`);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to fetch workspace changes');
+  }
+
+  const data = await response.json();
+  return data.changes;
+}
+
+/**
+ * Copies workspace changes into the project (all files when paths is omitted).
+ * Files that also changed in the project since the run started come back as conflicts.
+ * The workspace is kept until every change is applied; remaining counts the ones left.
+ */
+export async function applyWorkspaceChanges(
+  runId: string,
+  paths?: string[]
+): Promise<{ applied: string[]; conflicts: string[]; remaining: number }> {
+  const response = await fetch(`/api/runs/${encodeURIComponent(runId)}/changes/apply`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ paths }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to apply workspace changes');
+  }
+
+  return response.json();
+}
+
+/**
+ * Deletes the workspace without touching the project
+ */
+export async function discardWorkspace(runId: string): Promise<void> {
+  const response = await fetch(`/api/runs/${encodeURIComponent(runId)}/workspace`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || 'Failed to discard workspace');
+  }
+}
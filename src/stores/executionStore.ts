@@ -1,32 +1,64 @@
-import { create } from 'zustand';
+import { create, type StateCreator } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
 import { nanoid } from 'nanoid';
 import type { LogEntry, LogLevel } from '../types/workflow';
-import type { WorkflowResult } from '../services/socketService';
+import type { WorkflowResult, ApprovalRequestEvent, UsageStats, DryRunResult, WorkspaceChange } from '../services/socketService';
+import type { RunRecord, WorkspaceInfo } from '../types/run';
+
+// 격리 실행 작업 공간 - changes가 null이면 아직 불러오지 않음 (실행 기록에서 불러온 경우)
+export interface RunWorkspace {
+  runId: string;
+  mode: WorkspaceInfo['mode'];
+  status: WorkspaceInfo['status'];
+  changes: WorkspaceChange[] | null;
+}
 
 interface ExecutionState {
   // Execution state
   isRunning: boolean;
+  workflowId: string | null; // 마지막 실행의 ID (재개 시 같은 출력 디렉토리를 사용)
+  runId: string | null; // 실행 기록 ID - 실행 중이거나 기록에서 불러온 실행
+  lastEventSeq: number; // 현재 실행에서 마지막으로 처리한 이벤트 순서 번호 (재연결 시 이후부터 다시 받음)
   currentNodeId: string | null;
+  runningNodes: Set<string>;
   completedNodes: Set<string>;
   failedNodes: Set<string>;
   results: Map<string, any>;
+  nodeOutputs: Record<string, string>; // 실행 중 스트리밍으로 받은 노드별 응답 텍스트
   startTime: number | null;
   endTime: number | null;
 
   // Workflow results
   workflowResults: WorkflowResult[];
   outputDir: string | null;
+  runUsage: UsageStats | null; // 마지막 실행의 토큰 사용량/비용 합계
+  dryRun: DryRunResult | null; // 마지막 드라이런 결과 - 실행을 시작하면 지움
+  workspace: RunWorkspace | null; // 격리 실행의 작업 공간
+
+  // 승인 노드가 응답을 기다리는 요청
+  pendingApprovals: ApprovalRequestEvent[];
 
   // Logs
   logs: LogEntry[];
 
   // Actions
-  startExecution: () => void;
+  startExecution: (workflowId?: string) => void;
   stopExecution: () => void;
   setCurrentNode: (nodeId: string | null) => void;
+  markNodeRunning: (nodeId: string) => void;
   markNodeCompleted: (nodeId: string, result?: any) => void;
   markNodeFailed: (nodeId: string, error?: string) => void;
+  markNodeCancelled: (nodeId: string) => void;
   setWorkflowResults: (results: WorkflowResult[], outputDir?: string) => void;
+  appendNodeOutput: (nodeId: string, text: string) => void;
+  setRunId: (runId: string | null) => void;
+  acceptRunEvent: (seq?: number) => boolean;
+  setRunUsage: (usage: UsageStats | null) => void;
+  setDryRun: (result: DryRunResult | null) => void;
+  setWorkspace: (workspace: RunWorkspace | null) => void;
+  loadRun: (run: RunRecord) => void;
+  addPendingApproval: (request: ApprovalRequestEvent) => void;
+  removePendingApproval: (approvalId: string) => void;
   resetExecution: () => void;
 
   // Log actions
@@ -34,31 +66,49 @@ interface ExecutionState {
   clearLogs: () => void;
 }
 
-export const useExecutionStore = create<ExecutionState>((set, get) => ({
+const createExecutionState: StateCreator<ExecutionState> = (set, get) => ({
   // Initial state
   isRunning: false,
+  workflowId: null,
+  runId: null,
+  lastEventSeq: 0,
   currentNodeId: null,
+  runningNodes: new Set(),
   completedNodes: new Set(),
   failedNodes: new Set(),
   results: new Map(),
+  nodeOutputs: {},
   startTime: null,
   endTime: null,
   workflowResults: [],
   outputDir: null,
+  runUsage: null,
+  dryRun: null,
+  workspace: null,
+  pendingApprovals: [],
   logs: [],
 
   // Execution actions
-  startExecution: () => {
+  startExecution: (workflowId) => {
     set({
       isRunning: true,
+      workflowId: workflowId ?? get().workflowId,
+      runId: null,
+      lastEventSeq: 0,
       currentNodeId: null,
+      runningNodes: new Set(),
       completedNodes: new Set(),
       failedNodes: new Set(),
       results: new Map(),
+      nodeOutputs: {},
       startTime: Date.now(),
       endTime: null,
       workflowResults: [],
       outputDir: null,
+      runUsage: null,
+      dryRun: null,
+      workspace: null,
+      pendingApprovals: [],
     });
     get().addLog('info', 'Workflow execution started');
   },
@@ -67,7 +117,9 @@ export const useExecutionStore = create<ExecutionState>((set, get) => ({
     set({
       isRunning: false,
       currentNodeId: null,
+      runningNodes: new Set(),
       endTime: Date.now(),
+      pendingApprovals: [],
     });
     get().addLog('info', 'Workflow execution stopped');
   },
@@ -79,28 +131,52 @@ export const useExecutionStore = create<ExecutionState>((set, get) => ({
     }
   },
 
+  // 병렬 실행 시 여러 노드가 동시에 running 상태일 수 있음
+  markNodeRunning: (nodeId) => {
+    if (get().runningNodes.has(nodeId)) return;
+    set((state) => {
+      const newRunning = new Set(state.runningNodes);
+      newRunning.add(nodeId);
+      return { runningNodes: newRunning, currentNodeId: nodeId };
+    });
+    get().addLog('info', 'Processing node', nodeId);
+  },
+
   markNodeCompleted: (nodeId, result) => {
     set((state) => {
+      const newRunning = new Set(state.runningNodes);
+      newRunning.delete(nodeId);
       const newCompleted = new Set(state.completedNodes);
       newCompleted.add(nodeId);
       const newResults = new Map(state.results);
       if (result !== undefined) {
         newResults.set(nodeId, result);
       }
-      return { completedNodes: newCompleted, results: newResults };
+      return { runningNodes: newRunning, completedNodes: newCompleted, results: newResults };
     });
     get().addLog('success', 'Node completed', nodeId);
   },
 
   markNodeFailed: (nodeId, error) => {
     set((state) => {
+      const newRunning = new Set(state.runningNodes);
+      newRunning.delete(nodeId);
       const newFailed = new Set(state.failedNodes);
       newFailed.add(nodeId);
-      return { failedNodes: newFailed };
+      return { runningNodes: newRunning, failedNodes: newFailed };
     });
     get().addLog('error', error || 'Node failed', nodeId);
   },
 
+  markNodeCancelled: (nodeId) => {
+    set((state) => {
+      const newRunning = new Set(state.runningNodes);
+      newRunning.delete(nodeId);
+      return { runningNodes: newRunning };
+    });
+    get().addLog('warning', 'Node cancelled', nodeId);
+  },
+
   setWorkflowResults: (results, outputDir) => {
     set({
       workflowResults: results,
@@ -118,17 +194,88 @@ export const useExecutionStore = create<ExecutionState>((set, get) => ({
     });
   },
 
+  appendNodeOutput: (nodeId, text) => {
+    set((state) => ({
+      nodeOutputs: { ...state.nodeOutputs, [nodeId]: (state.nodeOutputs[nodeId] || '') + text },
+    }));
+  },
+
+  setRunId: (runId) => set({ runId }),
+
+  // 이미 처리한 이벤트(재구독 시 다시 받은 이벤트)면 false
+  acceptRunEvent: (seq) => {
+    if (seq === undefined) return true;
+    if (seq <= get().lastEventSeq) return false;
+    set({ lastEventSeq: seq });
+    return true;
+  },
+
+  setRunUsage: (usage) => set({ runUsage: usage }),
+
+  setDryRun: (result) => set({ dryRun: result }),
+
+  setWorkspace: (workspace) => set({ workspace }),
+
+  // 지난 실행 기록의 결과를 현재 실행 결과처럼 표시
+  loadRun: (run) => {
+    const nodesWithStatus = (status: string) =>
+      new Set(run.nodes.filter((n) => n.status === status).map((n) => n.nodeId));
+
+    set({
+      isRunning: false,
+      workflowId: run.workflowId,
+      runId: run.runId,
+      lastEventSeq: 0,
+      currentNodeId: null,
+      runningNodes: new Set(),
+      completedNodes: nodesWithStatus('completed'),
+      failedNodes: nodesWithStatus('error'),
+      results: new Map(run.results.filter((r) => r.result).map((r) => [r.nodeId, r.result])),
+      nodeOutputs: {},
+      startTime: Date.parse(run.startedAt),
+      endTime: run.finishedAt ? Date.parse(run.finishedAt) : null,
+      workflowResults: run.results,
+      outputDir: run.outputDir,
+      runUsage: run.usage ?? null,
+      dryRun: null,
+      workspace: run.workspace
+        ? { runId: run.runId, mode: run.workspace.mode, status: run.workspace.status, changes: null }
+        : null,
+      pendingApprovals: [],
+    });
+    get().addLog('info', `실행 기록 불러옴: ${run.workflowName} (${new Date(run.startedAt).toLocaleString('ko-KR')})`);
+  },
+
+  addPendingApproval: (request) => {
+    set((state) => ({ pendingApprovals: [...state.pendingApprovals, request] }));
+  },
+
+  removePendingApproval: (approvalId) => {
+    set((state) => ({
+      pendingApprovals: state.pendingApprovals.filter((a) => a.approvalId !== approvalId),
+    }));
+  },
+
   resetExecution: () => {
     set({
       isRunning: false,
+      workflowId: null,
+      runId: null,
+      lastEventSeq: 0,
       currentNodeId: null,
+      runningNodes: new Set(),
       completedNodes: new Set(),
       failedNodes: new Set(),
       results: new Map(),
+      nodeOutputs: {},
       startTime: null,
       endTime: null,
       workflowResults: [],
       outputDir: null,
+      runUsage: null,
+      dryRun: null,
+      workspace: null,
+      pendingApprovals: [],
     });
   },
 
@@ -148,11 +295,25 @@ export const useExecutionStore = create<ExecutionState>((set, get) => ({
   },
 
   clearLogs: () => set({ logs: [] }),
-}));
+});
+
+// 새로고침 후 진행 중인 실행을 다시 구독할 수 있도록 실행 ID만 탭 단위로 보존 (sessionStorage)
+export const useExecutionStore = create<ExecutionState>()(
+  persist(createExecutionState, {
+    name: 'execution-session',
+    storage: createJSONStorage(() => sessionStorage),
+    partialize: (state) => ({
+      isRunning: state.isRunning,
+      workflowId: state.workflowId,
+      runId: state.runId,
+      startTime: state.startTime,
+    }),
+  })
+);
 
 // Selectors
 export const selectIsNodeRunning = (nodeId: string) => (state: ExecutionState) =>
-  state.currentNodeId === nodeId;
+  state.runningNodes.has(nodeId);
 
 export const selectIsNodeCompleted = (nodeId: string) => (state: ExecutionState) =>
   state.completedNodes.has(nodeId);
@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { nanoid } from 'nanoid';
 import type { WorkflowNode, WorkflowEdge, NodeStatus, WorkflowNodeData } from '../types/nodes';
+import type { WorkflowSettings } from '../types/workflow';
 
 interface WorkflowState {
   // State
@@ -11,6 +12,7 @@ interface WorkflowState {
   workflowId: string;
   workflowName: string;
   isDraft: boolean;
+  settings: WorkflowSettings;
 
   // Node actions
   addNode: (node: WorkflowNode) => void;
@@ -25,6 +27,7 @@ interface WorkflowState {
 
   // Workflow actions
   setWorkflowName: (name: string) => void;
+  updateSettings: (settings: Partial<WorkflowSettings>) => void;
   loadWorkflow: (data: { nodes: WorkflowNode[]; edges: WorkflowEdge[]; name?: string }) => void;
   mergeExistingConfig: (nodes: WorkflowNode[]) => void;
   clearWorkflow: () => void;
@@ -45,6 +48,7 @@ export const useWorkflowStore = create<WorkflowState>()(
       workflowId: nanoid(),
       workflowName: 'Untitled Workflow',
       isDraft: true,
+      settings: {},
 
       // Node actions
       addNode: (node) =>
@@ -93,6 +97,11 @@ export const useWorkflowStore = create<WorkflowState>()(
       setWorkflowName: (name) =>
         set({ workflowName: name }),
 
+      updateSettings: (settings) =>
+        set((state) => ({
+          settings: { ...state.settings, ...settings },
+        })),
+
       loadWorkflow: (data) =>
         set({
           nodes: data.nodes,
@@ -159,6 +168,7 @@ export const useWorkflowStore = create<WorkflowState>()(
         edges: state.edges,
         workflowId: state.workflowId,
         workflowName: state.workflowName,
+        settings: state.settings,
       }),
     }
   )
@@ -1,7 +1,7 @@
 import type { Node, Edge } from '@xyflow/react';
 
 // Node status
-export type NodeStatus = 'idle' | 'pending' | 'running' | 'completed' | 'error';
+export type NodeStatus = 'idle' | 'pending' | 'running' | 'waiting' | 'completed' | 'error' | 'cancelled' | 'skipped';
 
 // Base node data - with index signature for React Flow compatibility
 export interface BaseNodeData {
@@ -10,9 +10,30 @@ export interface BaseNodeData {
   status: NodeStatus;
   progress?: number;
   error?: string;
+  attempt?: number; // 실행 중 재시도 횟수 (retry 정책이 있을 때)
+  maxAttempts?: number;
+  errorKind?: NodeErrorKind; // 'timeout'이면 일반 실패와 구분해 표시
   [key: string]: unknown;
 }
 
+// Retry policy (agent / skill)
+export type RetryCondition = 'timeout' | 'exit' | 'spawn' | 'schema';
+
+// Node failure cause - 'config' failures are never retried
+export type NodeErrorKind = RetryCondition | 'config';
+
+export interface RetryPolicy {
+  maxAttempts: number; // 첫 시도 포함
+  backoffMs: number; // 첫 재시도 전 대기 시간, 이후 시도마다 2배
+  retryOn?: RetryCondition[]; // 비어 있으면 모든 실패에 재시도
+}
+
+// 노드 프롬프트 실행 방법 - cli: claude 프로세스, sdk: Claude Agent SDK, api: Messages API (도구 없음)
+export type ExecutionBackendId = 'cli' | 'sdk' | 'api';
+
+// claude 권한 모드 - 없으면 CLI 기본값
+export type PermissionMode = 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan';
+
 // Input node types
 export type InputType = 'text' | 'file' | 'select' | 'multi';
 
@@ -31,11 +52,16 @@ export type AgentRole = 'researcher' | 'writer' | 'analyst' | 'coder' | 'custom'
 
 export interface AgentNodeData extends BaseNodeData {
   role: AgentRole;
-  tools: string[];
+  tools: string[]; // 실행 시 확인 없이 사용할 수 있는 도구
   mdContent?: string;
-  systemPrompt?: string;
+  systemPrompt?: string; // 실행 시 기본 시스템 프롬프트 뒤에 덧붙임
   model?: 'sonnet' | 'opus' | 'haiku';
+  permissionMode?: PermissionMode;
   usedInputs?: string[]; // IDs of input nodes used
+  retry?: RetryPolicy;
+  timeoutMs?: number; // 없으면 워크플로우 기본 타임아웃 사용
+  backend?: ExecutionBackendId; // 없으면 워크플로우 기본 백엔드 사용
+  outputSchema?: string; // JSON Schema 문자열 - 있으면 출력을 검증해 다음 노드에 data로 전달
   [key: string]: unknown;
 }
 
@@ -49,7 +75,11 @@ export interface SkillNodeData extends BaseNodeData {
   skillPath?: string; // 생성된 스킬의 파일 경로
   mdContent?: string;
   skillContent?: string; // AI가 생성한 커스텀 스킬 SKILL.md 내용
+  skillArgs?: string; // 스킬 호출 인자 - 템플릿 변수 사용 가능
   usedInputs?: string[];
+  retry?: RetryPolicy;
+  timeoutMs?: number;
+  backend?: ExecutionBackendId;
   [key: string]: unknown;
 }
 
@@ -65,6 +95,46 @@ export interface HookNodeData extends BaseNodeData {
   [key: string]: unknown;
 }
 
+// Condition node - true/false 핸들 중 판정 결과에 맞는 엣지만 활성화
+export type ConditionRuleType = 'regex' | 'contains' | 'jsonPath' | 'llm';
+export type ConditionOperator = 'equals' | 'notEquals' | 'greaterThan' | 'lessThan' | 'exists';
+
+export interface ConditionNodeData extends BaseNodeData {
+  ruleType: ConditionRuleType;
+  pattern?: string;
+  caseSensitive?: boolean;
+  jsonPath?: string;
+  operator?: ConditionOperator;
+  value?: string;
+  question?: string;
+  backend?: ExecutionBackendId; // llm
+  branch?: string; // 마지막 실행에서 선택된 핸들
+  [key: string]: unknown;
+}
+
+// Map node - 이전 결과를 항목으로 나눠 reduce 노드까지의 하위 그래프를 항목마다 실행
+export type MapSplitMode = 'json' | 'lines' | 'csv';
+
+export interface MapNodeData extends BaseNodeData {
+  splitMode: MapSplitMode;
+  csvHeader?: boolean;
+  maxConcurrency?: number;
+  [key: string]: unknown;
+}
+
+// Reduce node - map 하위 그래프의 항목별 결과를 모음
+export interface ReduceNodeData extends BaseNodeData {
+  outputFormat?: 'markdown' | 'json';
+  [key: string]: unknown;
+}
+
+// Approval node - 사람이 승인/거부/수정할 때까지 실행을 멈춤
+export interface ApprovalNodeData extends BaseNodeData {
+  instructions?: string;
+  rejected?: boolean; // 마지막 실행에서 거부됨
+  [key: string]: unknown;
+}
+
 // Output node
 export type OutputType = 'markdown' | 'document' | 'image' | 'webpage' | 'link' | 'auto';
 
@@ -83,6 +153,10 @@ export type WorkflowNodeData =
   | AgentNodeData
   | SkillNodeData
   | HookNodeData
+  | ConditionNodeData
+  | MapNodeData
+  | ReduceNodeData
+  | ApprovalNodeData
   | OutputNodeData;
 
 // Typed nodes
@@ -90,9 +164,22 @@ export type InputNode = Node<InputNodeData, 'input'>;
 export type AgentNode = Node<AgentNodeData, 'agent'>;
 export type SkillNode = Node<SkillNodeData, 'skill'>;
 export type HookNode = Node<HookNodeData, 'hook'>;
+export type ConditionNode = Node<ConditionNodeData, 'condition'>;
+export type MapNode = Node<MapNodeData, 'map'>;
+export type ReduceNode = Node<ReduceNodeData, 'reduce'>;
+export type ApprovalNode = Node<ApprovalNodeData, 'approval'>;
 export type OutputNode = Node<OutputNodeData, 'output'>;
 
-export type WorkflowNode = InputNode | AgentNode | SkillNode | HookNode | OutputNode;
+export type WorkflowNode =
+  | InputNode
+  | AgentNode
+  | SkillNode
+  | HookNode
+  | ConditionNode
+  | MapNode
+  | ReduceNode
+  | ApprovalNode
+  | OutputNode;
 export type WorkflowEdge = Edge;
 
 // Node type enum for type guards
@@ -101,11 +188,25 @@ export const NODE_TYPES = {
   AGENT: 'agent',
   SKILL: 'skill',
   HOOK: 'hook',
+  CONDITION: 'condition',
+  MAP: 'map',
+  REDUCE: 'reduce',
+  APPROVAL: 'approval',
   OUTPUT: 'output',
 } as const;
 
 export type NodeType = typeof NODE_TYPES[keyof typeof NODE_TYPES];
 
+// 실행 흐름에만 쓰이고 .claude/ 파일로 동기화되지 않는 노드 타입
+export const FLOW_ONLY_NODE_TYPES: readonly string[] = [
+  NODE_TYPES.INPUT,
+  NODE_TYPES.OUTPUT,
+  NODE_TYPES.CONDITION,
+  NODE_TYPES.MAP,
+  NODE_TYPES.REDUCE,
+  NODE_TYPES.APPROVAL,
+];
+
 // Default tools list
 export const AVAILABLE_TOOLS = [
   'Read',
@@ -0,0 +1,77 @@
+// Run history types (server/types.ts의 RunRecord와 동일한 형태)
+import type { NodeStatus } from './nodes';
+import type { WorkflowResult, UsageStats } from '../services/socketService';
+import type { IsolationMode } from './workflow';
+
+export type RunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+// 실행을 시작한 곳 - 편집기, 예약 실행, makecc run, POST /api/workflows/:id/runs
+export type RunTrigger = 'manual' | 'schedule' | 'cli' | 'api';
+
+export interface RunNodeRecord {
+  nodeId: string;
+  label: string;
+  type: string;
+  status: NodeStatus;
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+  attempts?: number;
+  error?: string;
+}
+
+export interface RunSummary {
+  runId: string;
+  workflowId: string;
+  workflowName: string;
+  status: RunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  resumed?: boolean;
+  usage?: UsageStats;
+  trigger?: RunTrigger;
+  scheduleId?: string;
+}
+
+export interface RunRecord extends RunSummary {
+  inputs: Record<string, string>;
+  outputDir: string;
+  nodes: RunNodeRecord[];
+  results: WorkflowResult[];
+  error?: string;
+  workspace?: WorkspaceInfo;
+}
+
+// 진행 중인 실행 - GET /api/runs/active, runs:active 이벤트
+export interface ActiveRun {
+  runId: string;
+  workflowId: string;
+  workflowName: string;
+  trigger: RunTrigger;
+  startedAt: string;
+  outputDir: string;
+}
+
+// 격리 실행 작업 공간 - pending이면 아직 적용/폐기하지 않음
+export interface WorkspaceInfo {
+  mode: Exclude<IsolationMode, 'none'>;
+  dir: string;
+  status: 'pending' | 'applied' | 'discarded';
+  changedFiles: number;
+}
+
+// 예약 실행 - 생성 시점의 워크플로우를 서버에 저장해 두고 cron 시각마다 고정된 입력으로 실행
+export interface WorkflowSchedule {
+  id: string;
+  workflowId: string;
+  workflowName: string;
+  cron: string;
+  inputs: Record<string, string>;
+  createdAt: string;
+  lastRunAt?: string;
+  lastRunId?: string;
+  lastStatus?: RunStatus;
+  lastError?: string;
+  nextRunAt?: string;
+}
@@ -1,4 +1,4 @@
-import type { WorkflowNode, WorkflowEdge } from './nodes';
+import type { WorkflowNode, WorkflowEdge, ExecutionBackendId } from './nodes';
 
 // Workflow definition
 export interface Workflow {
@@ -12,6 +12,17 @@ export interface Workflow {
   isDraft: boolean;
 }
 
+// Workflow-level execution settings (sent with each run)
+export interface WorkflowSettings {
+  defaultTimeoutMs?: number; // 노드에 timeoutMs가 없을 때의 기본값
+  maxConcurrency?: number; // 동시에 실행할 최대 노드 수
+  backend?: ExecutionBackendId; // 노드에 backend가 없을 때의 기본값 (cli)
+  isolation?: IsolationMode; // 격리 실행 - 복사본/worktree에서 실행하고 변경 사항은 확인 후 적용
+}
+
+// none: 프로젝트에서 바로 실행, copy: 프로젝트 복사본, worktree: git worktree (HEAD 기준)
+export type IsolationMode = 'none' | 'copy' | 'worktree';
+
 // Execution state
 export interface ExecutionState {
   isRunning: boolean;
@@ -0,0 +1,52 @@
+import type { WorkflowNode, WorkflowEdge } from '../types/nodes';
+import type { WorkflowSettings } from '../types/workflow';
+import type { WorkflowExecutionRequest } from '../services/socketService';
+
+/**
+ * Input 노드들의 현재 값 (value, defaultValue, placeholder 순으로 fallback)
+ */
+export function collectInputValues(nodes: WorkflowNode[]): Record<string, string> {
+  const inputs: Record<string, string> = {};
+  nodes.forEach((n) => {
+    if (n.type === 'input') {
+      const data = n.data as Record<string, unknown>;
+      const value = (data.value as string) || (data.defaultValue as string) || (data.placeholder as string) || '';
+      if (value) {
+        inputs[n.id] = value;
+      }
+    }
+  });
+  return inputs;
+}
+
+/**
+ * 현재 캔버스 상태로 실행 요청 생성
+ */
+export function buildExecutionRequest(
+  workflowId: string,
+  workflowName: string,
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[],
+  settings: WorkflowSettings
+): WorkflowExecutionRequest {
+  return {
+    workflowId,
+    workflowName,
+    nodes: nodes.map((n) => ({
+      id: n.id,
+      type: n.type || 'unknown',
+      data: n.data as Record<string, unknown>,
+    })),
+    edges: edges.map((e) => ({
+      id: e.id,
+      source: e.source,
+      target: e.target,
+      sourceHandle: e.sourceHandle,
+    })),
+    inputs: collectInputValues(nodes),
+    maxConcurrency: settings.maxConcurrency,
+    defaultTimeoutMs: settings.defaultTimeoutMs,
+    backend: settings.backend,
+    isolation: settings.isolation,
+  };
+}
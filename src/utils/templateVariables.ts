@@ -0,0 +1,81 @@
+import type { WorkflowNode, WorkflowEdge } from '../types/nodes';
+
+/**
+ * 프롬프트 템플릿 변수 ({{inputs.topic}}, {{nodes.researcher.result}}, {{run.outputDir}})
+ * 실제 치환은 실행 시점에 서버(server/utils/templateResolver.ts)에서 수행하고,
+ * 여기서는 에디터 자동완성과 알 수 없는 변수 표시만 담당한다.
+ */
+
+const TEMPLATE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export const RUN_VARIABLES = ['run.outputDir', 'run.projectRoot', 'run.workflowName', 'run.workflowId'];
+
+export interface TemplateVariable {
+  name: string;
+  description: string;
+}
+
+/**
+ * 텍스트에 쓰인 변수 이름 목록
+ */
+export function extractTemplateVariables(text: string): string[] {
+  return [...text.matchAll(TEMPLATE_PATTERN)].map((match) => match[1]);
+}
+
+/**
+ * 노드의 모든 상위(upstream) 노드 ID
+ */
+function getAncestorIds(nodeId: string, edges: WorkflowEdge[]): Set<string> {
+  const ancestors = new Set<string>();
+  const queue = [nodeId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of edges) {
+      if (edge.target === current && !ancestors.has(edge.source)) {
+        ancestors.add(edge.source);
+        queue.push(edge.source);
+      }
+    }
+  }
+
+  return ancestors;
+}
+
+/**
+ * 노드에서 사용할 수 있는 변수 - 모든 입력 노드, 상위 노드의 결과, 실행 정보
+ */
+export function getAvailableVariables(nodeId: string, nodes: WorkflowNode[], edges: WorkflowEdge[]): TemplateVariable[] {
+  const ancestors = getAncestorIds(nodeId, edges);
+  const variables: TemplateVariable[] = [];
+
+  for (const node of nodes) {
+    if (node.type === 'input') {
+      variables.push({ name: `inputs.${node.data.label}`, description: '입력값' });
+    }
+  }
+
+  for (const node of nodes) {
+    if (!ancestors.has(node.id) || node.type === 'input') continue;
+    variables.push({ name: `nodes.${node.data.label}.result`, description: '노드 결과 텍스트' });
+    variables.push({ name: `nodes.${node.data.label}.data`, description: '노드 구조화 데이터 (JSON)' });
+  }
+
+  for (const name of RUN_VARIABLES) {
+    variables.push({ name, description: '실행 정보' });
+  }
+
+  return variables;
+}
+
+/**
+ * 사용할 수 없는 변수 목록 - data 하위 경로({{nodes.x.data.items[0]}})는 data 변수가 있으면 허용
+ */
+export function findUnknownVariables(text: string, available: TemplateVariable[]): string[] {
+  const names = new Set(available.map((v) => v.name));
+
+  return extractTemplateVariables(text).filter((variable) => {
+    if (names.has(variable)) return false;
+    return !available.some((v) => v.name.endsWith('.data') && variable.startsWith(`${v.name}.`));
+  });
+}
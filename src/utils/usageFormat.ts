@@ -0,0 +1,28 @@
+import type { UsageStats } from '../services/socketService';
+
+export function formatTokens(count: number): string {
+  if (count < 1000) return String(count);
+  if (count < 1_000_000) return `${(count / 1000).toFixed(1)}k`;
+  return `${(count / 1_000_000).toFixed(2)}M`;
+}
+
+// 1센트 미만은 소수 넷째 자리까지
+export function formatCost(usd: number): string {
+  return usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+export function formatUsage(usage: UsageStats): string {
+  return `${formatTokens(usage.inputTokens + usage.outputTokens)} tokens · ${formatCost(usage.costUsd)}`;
+}
+
+// 툴팁용 상세 내역
+export function describeUsage(usage: UsageStats): string {
+  const lines = [
+    `입력 ${usage.inputTokens.toLocaleString()} / 출력 ${usage.outputTokens.toLocaleString()} 토큰`,
+    `비용 ${formatCost(usage.costUsd)} · ${(usage.durationMs / 1000).toFixed(1)}s`,
+  ];
+  if (usage.cacheReadTokens || usage.cacheCreationTokens) {
+    lines.splice(1, 0, `캐시 읽기 ${usage.cacheReadTokens.toLocaleString()} / 쓰기 ${usage.cacheCreationTokens.toLocaleString()} 토큰`);
+  }
+  return lines.join('\n');
+}